@@ -1,4 +1,4 @@
-import { ContentfulConfig } from './types';
+import { ContentfulConfig, ScanScope, KeyCase, KeyLintRule, LintSeverity } from './types';
 
 /**
  * Plugin version - must match version in package.json
@@ -10,15 +10,146 @@ export const PLUGIN_VERSION = "2.0.0";
  */
 export const API_TIMEOUT = 10000;
 
+/**
+ * Retry budget for rate-limited (429) and transient (5xx) responses
+ * Fixed rather than a setting: Contentful's per-second rate limit resets within a second
+ * or two, and a longer wait (an exhausted quota) is better reported than waited out.
+ * The total delay cap bounds how long one request can keep the user waiting
+ */
+export const DEFAULT_RETRY_OPTIONS = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxTotalDelayMs: 20000
+};
+
+/**
+ * Maximum number of entries Contentful returns per request
+ */
+export const ENTRIES_PAGE_LIMIT = 1000;
+
+/**
+ * Maximum number of concurrent save requests during a bulk push
+ */
+export const SAVE_CONCURRENCY = 4;
+
 /**
  * Debounce time for selection events (milliseconds)
  */
 export const SELECTION_DEBOUNCE_MS = 300;
 
 /**
- * Threshold for duplicate message detection (milliseconds)
+ * Number of recent request IDs remembered to drop re-sent requests
+ */
+export const REQUEST_ID_HISTORY_SIZE = 500;
+
+/**
+ * Locale assumed when the space's default locale is unknown
+ */
+export const FALLBACK_LOCALE = "en-US";
+
+/**
+ * Shared plugin data namespace and key holding a document's settings
+ */
+export const DOCUMENT_CONFIG_NAMESPACE = "translatorwiz";
+export const DOCUMENT_CONFIG_KEY = "config";
+
+/**
+ * Scopes a node scan can cover; scans default to the current page
+ */
+export const SCAN_SCOPES: ReadonlyArray<ScanScope> = ["selection", "page", "document"];
+export const DEFAULT_SCAN_SCOPE: ScanScope = "page";
+
+/**
+ * Named capture group in NODE_NAME_PATTERN that holds the key part of a layer name
+ */
+export const NODE_KEY_GROUP = "key";
+
+/**
+ * Key generation: the default layer name template, the tokens a template can use
+ * and the casings its parts can be written in
+ */
+export const DEFAULT_KEY_TEMPLATE = "jams_{frame}.{layer}";
+export const KEY_TEMPLATE_TOKENS: ReadonlyArray<string> = ["page", "section", "frame", "parent", "layer", "text"];
+export const KEY_CASES: ReadonlyArray<KeyCase> = ["snake", "camel", "kebab", "pascal"];
+export const DEFAULT_KEY_CASE: KeyCase = "snake";
+
+/**
+ * Key lint rules and the severity each has unless KEY_LINT_RULES changes it.
+ * Defaults only warn, so no push is blocked until a rule is made an error
+ */
+export const DEFAULT_KEY_LINT_RULES: Readonly<Record<KeyLintRule, LintSeverity>> = {
+  "lowercase": "warning",
+  "namespace": "off",
+  "max-length": "warning",
+  "copy-suffix": "warning",
+  "text-conflict": "warning"
+};
+export const LINT_SEVERITIES: ReadonlyArray<LintSeverity> = ["off", "warning", "error"];
+export const DEFAULT_KEY_MAX_LENGTH = 60;
+
+/**
+ * Reuse suggestions before creating an entry: the similarity from which a value
+ * counts as near-identical, and the number of suggestions returned
+ */
+export const REUSE_SIMILARITY_THRESHOLD = 0.85;
+export const MAX_REUSE_SUGGESTIONS = 3;
+
+/**
+ * How long loaded Contentful items are reused for the reuse check of a single save (5 minutes)
+ */
+export const LOADED_ITEMS_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Plugin data keys storing a text node's binding to a Contentful entry
+ */
+export const NODE_BINDING_KEY = "contentfulKey";
+export const NODE_BINDING_ENTRY_ID = "contentfulEntryId";
+
+/**
+ * Plugin data keys storing the value and entry version of a text node's last push or pull
+ */
+export const NODE_SYNC_VALUE = "contentfulSyncedValue";
+export const NODE_SYNC_VERSION = "contentfulSyncedVersion";
+
+/**
+ * Plugin data keys storing the locale a text node previews and the text applied for it
+ */
+export const NODE_PREVIEW_LOCALE = "contentfulPreviewLocale";
+export const NODE_PREVIEW_VALUE = "contentfulPreviewValue";
+
+/**
+ * Prefix of the string variable collection synced from a content type
+ */
+export const VARIABLE_COLLECTION_PREFIX = "Contentful";
+
+/**
+ * Plugin data key storing the Contentful key a variable was created for
+ */
+export const VARIABLE_KEY_DATA = "contentfulKey";
+
+/**
+ * Plugin data keys storing a variable's entry, the entry version it was synced at and
+ * the value each sync wrote per mode (JSON by mode ID)
+ */
+export const VARIABLE_ENTRY_ID = "contentfulEntryId";
+export const VARIABLE_SYNC_VERSION = "contentfulSyncedVersion";
+export const VARIABLE_SYNC_VALUES = "contentfulSyncedValues";
+
+/**
+ * Config fields that stay in the user's local storage and are never written to the document
+ */
+export const LOCAL_ONLY_CONFIG_FIELDS: ReadonlyArray<keyof ContentfulConfig> = ["CMA_TOKEN"];
+
+/**
+ * Optional config fields - not in defaultConfig, but shared through the document like the rest
+ */
+export const OPTIONAL_CONFIG_FIELDS: ReadonlyArray<keyof ContentfulConfig> = ["KEY_TEMPLATE", "KEY_CASE", "KEY_LINT_RULES", "KEY_MAX_LENGTH"];
+
+/**
+ * Name of the profile created from an existing configuration
  */
-export const DUPLICATE_THRESHOLD_MS = 200;
+export const DEFAULT_PROFILE_NAME = "Default";
 
 /**
  * Default configuration values
@@ -30,5 +161,6 @@ export const defaultConfig: ContentfulConfig = {
   CONTENT_TYPE: "translation",
   KEY_FIELD: "key",
   VALUE_FIELD: "value",
-  NODE_NAME_PATTERN: "^jams_"
+  NODE_NAME_PATTERN: "^jams_",
+  TARGET_LOCALE: ""
 };
@@ -1,28 +1,44 @@
-import { ContentfulConfig } from '../types/config.types';
+import { ContentfulConfig, ProfileStore } from '../types/config.types';
+import { Responder } from '../types/messages.types';
 import { PLUGIN_VERSION } from '../constants';
 import {
   validateConfig,
   loadConfigFromStorage,
-  saveConfigToStorage
+  saveConfigToStorage,
+  loadProfiles,
+  createProfile,
+  renameProfile,
+  duplicateProfile,
+  deleteProfile,
+  switchProfile
 } from '../services/config.service';
 import { fetchLocales, validateContentType } from '../services/contentful.service';
 import { getTranslatableNodeCount } from '../services/node.service';
+import { postToUI } from './responder';
 
 /**
  * Handle plugin initialization
+ * @param respond - Sends responses back to the UI
  */
-export async function handleInit(): Promise<void> {
+export async function handleInit(respond: Responder = postToUI): Promise<void> {
   // Load config from storage
   const configData = await loadConfigFromStorage();
 
   // Always send config to UI (even if incomplete) so UI can show onboarding
-  figma.ui.postMessage({ type: 'config-loaded', config: configData, version: PLUGIN_VERSION });
+  respond({ type: 'config-loaded', config: configData, version: PLUGIN_VERSION });
+
+  try {
+    sendProfiles(await loadProfiles(), respond);
+  } catch (error) {
+    // Profiles are optional - the plugin works with the current config alone
+    console.error('Failed to load profiles:', error);
+  }
 
   // Count translatable nodes and send to UI (only if config is valid)
   const configError = validateConfig(configData);
   if (!configError) {
     const nodeCount = getTranslatableNodeCount(configData);
-    figma.ui.postMessage({ type: 'node-count', count: nodeCount });
+    respond({ type: 'node-count', count: nodeCount });
   }
 }
 
@@ -37,37 +53,51 @@ export function handlePluginReady(enableSelectionTracking: () => void): void {
 /**
  * Handle save config request
  * @param config - Configuration to save
+ * @param respond - Sends responses back to the UI
  */
-export async function handleSaveConfig(config: ContentfulConfig | undefined): Promise<void> {
+export async function handleSaveConfig(
+  config: ContentfulConfig | undefined,
+  respond: Responder = postToUI
+): Promise<void> {
   if (!config) {
-    figma.ui.postMessage({ type: 'config-save-failed', message: 'No config provided' });
+    respond({ type: 'config-save-failed', message: 'No config provided' });
     return;
   }
 
   // Validate new config
   const configError = validateConfig(config);
   if (configError) {
-    figma.ui.postMessage({ type: 'config-save-failed', message: configError });
+    respond({ type: 'config-save-failed', message: configError });
     return;
   }
 
-  // Save to storage
-  await saveConfigToStorage(config);
+  // Save to the document and storage
+  try {
+    await saveConfigToStorage(config);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to save settings';
+    respond({ type: 'config-save-failed', message: errorMessage });
+    return;
+  }
 
-  figma.ui.postMessage({ type: 'config-saved', config });
+  respond({ type: 'config-saved', config });
 
   // Update node count with new config
   const nodeCount = getTranslatableNodeCount(config);
-  figma.ui.postMessage({ type: 'node-count', count: nodeCount });
+  respond({ type: 'node-count', count: nodeCount });
 }
 
 /**
  * Handle preflight test for locales (validates credentials, space, and environment)
  * @param config - Configuration to test
+ * @param respond - Sends responses back to the UI
  */
-export async function handlePreflightTestLocales(config: ContentfulConfig | undefined): Promise<void> {
+export async function handlePreflightTestLocales(
+  config: ContentfulConfig | undefined,
+  respond: Responder = postToUI
+): Promise<void> {
   if (!config) {
-    figma.ui.postMessage({
+    respond({
       type: 'preflight-locales-result',
       result: { success: false, error: 'No config provided' }
     });
@@ -81,13 +111,18 @@ export async function handlePreflightTestLocales(config: ContentfulConfig | unde
       throw new Error('No locales found');
     }
 
-    figma.ui.postMessage({
+    const targetLocale = config.TARGET_LOCALE ? config.TARGET_LOCALE.trim() : '';
+    if (targetLocale && !locales.some(l => l.code === targetLocale)) {
+      throw new Error(`Target locale "${targetLocale}" not found`);
+    }
+
+    respond({
       type: 'preflight-locales-result',
       result: { success: true, message: `Found ${locales.length} locale(s)` }
     });
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : 'Failed to fetch locales';
-    figma.ui.postMessage({
+    respond({
       type: 'preflight-locales-result',
       result: { success: false, error: errorMsg }
     });
@@ -97,10 +132,14 @@ export async function handlePreflightTestLocales(config: ContentfulConfig | unde
 /**
  * Handle preflight check for content type and fields
  * @param config - Configuration to check
+ * @param respond - Sends responses back to the UI
  */
-export async function handlePreflightCheckContent(config: ContentfulConfig | undefined): Promise<void> {
+export async function handlePreflightCheckContent(
+  config: ContentfulConfig | undefined,
+  respond: Responder = postToUI
+): Promise<void> {
   if (!config) {
-    figma.ui.postMessage({
+    respond({
       type: 'preflight-content-result',
       result: { success: false, error: 'No config provided' }
     });
@@ -110,14 +149,114 @@ export async function handlePreflightCheckContent(config: ContentfulConfig | und
   const result = await validateContentType(config);
 
   if (result.success) {
-    figma.ui.postMessage({
+    respond({
       type: 'preflight-content-result',
       result: { success: true, message: 'Content type validated' }
     });
   } else {
-    figma.ui.postMessage({
+    respond({
       type: 'preflight-content-result',
       result: { success: false, error: result.error }
     });
   }
 }
+
+/**
+ * Send the profile list, active profile and its config to the UI
+ * @param store - Profile store
+ * @param respond - Sends responses back to the UI
+ */
+function sendProfiles(store: ProfileStore, respond: Responder): void {
+  const active = store.profiles.find(p => p.id === store.activeProfileId);
+  respond({
+    type: 'profiles-loaded',
+    profiles: store.profiles.map(p => ({ id: p.id, name: p.name })),
+    activeProfileId: store.activeProfileId,
+    config: active ? active.config : store.profiles[0].config
+  });
+}
+
+/**
+ * Run a profile operation and send the resulting profiles to the UI
+ * @param operation - Profile operation to run
+ * @param respond - Sends responses back to the UI
+ */
+async function runProfileOperation(
+  operation: () => Promise<ProfileStore>,
+  respond: Responder
+): Promise<void> {
+  try {
+    sendProfiles(await operation(), respond);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Profile operation failed';
+    respond({ type: 'error', message: errorMessage });
+  }
+}
+
+/**
+ * Handle load profiles request
+ * @param respond - Sends responses back to the UI
+ */
+export async function handleLoadProfiles(respond: Responder = postToUI): Promise<void> {
+  await runProfileOperation(() => loadProfiles(), respond);
+}
+
+/**
+ * Handle create profile request - the new profile becomes active
+ * @param name - Profile name
+ * @param config - Connection settings for the profile
+ * @param respond - Sends responses back to the UI
+ */
+export async function handleCreateProfile(
+  name: string,
+  config: ContentfulConfig,
+  respond: Responder = postToUI
+): Promise<void> {
+  await runProfileOperation(() => createProfile(name, config), respond);
+}
+
+/**
+ * Handle rename profile request
+ * @param profileId - Profile to rename
+ * @param name - New name
+ * @param respond - Sends responses back to the UI
+ */
+export async function handleRenameProfile(
+  profileId: string,
+  name: string,
+  respond: Responder = postToUI
+): Promise<void> {
+  await runProfileOperation(() => renameProfile(profileId, name), respond);
+}
+
+/**
+ * Handle duplicate profile request
+ * @param profileId - Profile to copy
+ * @param name - Name for the copy
+ * @param respond - Sends responses back to the UI
+ */
+export async function handleDuplicateProfile(
+  profileId: string,
+  name: string | undefined,
+  respond: Responder = postToUI
+): Promise<void> {
+  await runProfileOperation(() => duplicateProfile(profileId, name), respond);
+}
+
+/**
+ * Handle delete profile request
+ * @param profileId - Profile to delete
+ * @param respond - Sends responses back to the UI
+ */
+export async function handleDeleteProfile(profileId: string, respond: Responder = postToUI): Promise<void> {
+  await runProfileOperation(() => deleteProfile(profileId), respond);
+}
+
+/**
+ * Handle switch profile request
+ * @param profileId - Profile to activate
+ * @param respond - Sends responses back to the UI
+ */
+export async function handleSwitchProfile(profileId: string, respond: Responder = postToUI): Promise<void> {
+  await runProfileOperation(() => switchProfile(profileId), respond);
+}
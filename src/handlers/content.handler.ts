@@ -1,38 +1,59 @@
 import { ContentfulConfig } from '../types/config.types';
 import { ContentfulRecord } from '../types/contentful.types';
-import { FieldMapping } from '../types/figma.types';
-import { fetchContentTypes, fetchRecords } from '../services/contentful.service';
-import { getAllTextNodes, applyRecordToNodes } from '../services/node.service';
+import { FieldMapping, ScanScope } from '../types/figma.types';
+import { Responder } from '../types/messages.types';
+import {
+  fetchContentTypes,
+  fetchRecords,
+  fetchLocales,
+  fetchTranslations,
+  pickLocaleContext,
+  getFallbackChain
+} from '../services/contentful.service';
+import { getAllTextNodes, applyRecordToNodes, applyTranslations, loadScope } from '../services/node.service';
+import { startOperation, finishOperation } from '../services/operation.service';
+import { DEFAULT_SCAN_SCOPE } from '../constants';
+import { postToUI } from './responder';
 
 /**
  * Handle load content types request
  * @param config - Contentful configuration
+ * @param respond - Sends responses back to the UI
  */
-export async function handleLoadContentTypes(config: ContentfulConfig | undefined): Promise<void> {
+export async function handleLoadContentTypes(
+  config: ContentfulConfig | undefined,
+  respond: Responder = postToUI
+): Promise<void> {
   if (!config) {
-    figma.ui.postMessage({ type: 'error', message: 'Configuration missing' });
+    respond({ type: 'error', message: 'Configuration missing' });
     return;
   }
 
   try {
     const contentTypes = await fetchContentTypes(config);
-    figma.ui.postMessage({ type: 'content-types-loaded', contentTypes });
+    respond({ type: 'content-types-loaded', contentTypes });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    figma.ui.postMessage({ type: 'error', message: errorMessage });
+    respond({ type: 'error', message: errorMessage });
   }
 }
 
 /**
  * Handle get text nodes request
+ * @param scope - Where to look for text nodes
+ * @param respond - Sends responses back to the UI
  */
-export function handleGetTextNodes(): void {
+export async function handleGetTextNodes(
+  scope: ScanScope = DEFAULT_SCAN_SCOPE,
+  respond: Responder = postToUI
+): Promise<void> {
   try {
-    const textNodes = getAllTextNodes();
-    figma.ui.postMessage({ type: 'text-nodes-loaded', nodes: textNodes });
+    await loadScope(scope);
+    const textNodes = getAllTextNodes(scope);
+    respond({ type: 'text-nodes-loaded', nodes: textNodes, scope });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    figma.ui.postMessage({ type: 'error', message: errorMessage });
+    respond({ type: 'error', message: errorMessage });
   }
 }
 
@@ -40,22 +61,24 @@ export function handleGetTextNodes(): void {
  * Handle load records request
  * @param config - Contentful configuration
  * @param contentType - Content type to load records for
+ * @param respond - Sends responses back to the UI
  */
 export async function handleLoadRecords(
   config: ContentfulConfig | undefined,
-  contentType: string | undefined
+  contentType: string | undefined,
+  respond: Responder = postToUI
 ): Promise<void> {
   if (!config || !contentType) {
-    figma.ui.postMessage({ type: 'error', message: 'Configuration or content type missing' });
+    respond({ type: 'error', message: 'Configuration or content type missing' });
     return;
   }
 
   try {
     const records = await fetchRecords(config, contentType);
-    figma.ui.postMessage({ type: 'records-loaded', records });
+    respond({ type: 'records-loaded', records });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    figma.ui.postMessage({ type: 'error', message: errorMessage });
+    respond({ type: 'error', message: errorMessage });
   }
 }
 
@@ -63,29 +86,41 @@ export async function handleLoadRecords(
  * Handle load multiple records request
  * @param config - Contentful configuration
  * @param contentTypes - Array of content types to load records for
+ * @param operationId - ID the UI can cancel the load with
+ * @param respond - Sends responses back to the UI
  */
 export async function handleLoadMultipleRecords(
   config: ContentfulConfig | undefined,
-  contentTypes: string[] | undefined
+  contentTypes: string[] | undefined,
+  operationId?: string,
+  respond: Responder = postToUI
 ): Promise<void> {
   if (!config || !contentTypes) {
-    figma.ui.postMessage({ type: 'error', message: 'Configuration or content types missing' });
+    respond({ type: 'error', message: 'Configuration or content types missing' });
     return;
   }
 
+  const operation = startOperation(operationId, 'load-records');
+
   try {
     const recordsByContentType: Record<string, ContentfulRecord[]> = {};
 
     // Load records from each content type
     for (const contentType of contentTypes) {
-      const records = await fetchRecords(config, contentType) as ContentfulRecord[];
+      const records = await fetchRecords(config, contentType, operation.signal) as ContentfulRecord[];
       recordsByContentType[contentType] = records;
     }
 
-    figma.ui.postMessage({ type: 'multiple-records-loaded', recordsByContentType });
+    respond({ type: 'multiple-records-loaded', operationId: operation.id, recordsByContentType });
   } catch (error) {
+    if (operation.signal.aborted) {
+      respond({ type: 'operation-cancelled', operationId: operation.id });
+      return;
+    }
     const errorMessage = error instanceof Error ? error.message : String(error);
-    figma.ui.postMessage({ type: 'error', message: errorMessage });
+    respond({ type: 'error', message: errorMessage });
+  } finally {
+    finishOperation(operation);
   }
 }
 
@@ -93,21 +128,94 @@ export async function handleLoadMultipleRecords(
  * Handle apply record to nodes request
  * @param mappings - Field-to-node mappings
  * @param recordFields - Record field values to apply
+ * @param respond - Sends responses back to the UI
  */
 export async function handleApplyRecordToNodes(
   mappings: FieldMapping[] | undefined,
-  recordFields: Record<string, unknown> | undefined
+  recordFields: Record<string, unknown> | undefined,
+  respond: Responder = postToUI
 ): Promise<void> {
   if (!mappings || !recordFields) {
-    figma.ui.postMessage({ type: 'error', message: 'Mappings or record data missing' });
+    respond({ type: 'error', message: 'Mappings or record data missing' });
     return;
   }
 
   try {
-    await applyRecordToNodes(mappings, recordFields);
-    figma.ui.postMessage({ type: 'record-applied' });
+    const overflows = await applyRecordToNodes(mappings, recordFields);
+    respond({ type: 'record-applied', overflows });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    respond({ type: 'error', message: errorMessage });
+  }
+}
+
+/**
+ * Handle load locales request
+ * @param config - Contentful configuration
+ * @param respond - Sends responses back to the UI
+ */
+export async function handleLoadLocales(
+  config: ContentfulConfig | undefined,
+  respond: Responder = postToUI
+): Promise<void> {
+  if (!config) {
+    respond({ type: 'error', message: 'Configuration missing' });
+    return;
+  }
+
+  try {
+    const locales = await fetchLocales(config);
+    respond({ type: 'locales-loaded', locales });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    respond({ type: 'error', message: errorMessage });
+  }
+}
+
+/**
+ * Handle apply locale request - fetches a locale's translations and applies them to the scope
+ * @param config - Contentful configuration
+ * @param locale - Locale code to apply
+ * @param scope - Where to apply the translations
+ * @param respond - Sends responses back to the UI
+ */
+export async function handleApplyLocale(
+  config: ContentfulConfig | undefined,
+  locale: string | undefined,
+  scope: ScanScope = DEFAULT_SCAN_SCOPE,
+  respond: Responder = postToUI
+): Promise<void> {
+  if (!config || !locale) {
+    respond({ type: 'error', message: 'Configuration or locale missing' });
+    return;
+  }
+
+  try {
+    const spaceLocales = await fetchLocales(config);
+    const locales = pickLocaleContext(config, spaceLocales);
+    // Pushes write the target locale; any other locale is only previewed, and a preview
+    // fills untranslated text from the locale's fallbacks, as Contentful delivers it
+    const previewLocale = locale !== locales.target ? locale : undefined;
+    const translations = await fetchTranslations(
+      config,
+      { target: locale, default: locales.default },
+      previewLocale ? getFallbackChain(spaceLocales, locale) : []
+    );
+    await loadScope(scope);
+    const result = await applyTranslations(translations, config, scope, previewLocale);
+
+    respond({
+      type: 'locale-applied',
+      locale,
+      scope,
+      updated: result.updated,
+      skipped: result.skipped,
+      missingKeys: result.missingKeys,
+      errors: result.errors,
+      overflows: result.overflows
+    });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    figma.ui.postMessage({ type: 'error', message: errorMessage });
+    respond({ type: 'error', message: errorMessage });
   }
 }
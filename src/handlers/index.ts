@@ -1,8 +1,17 @@
 import { UIMessage } from '../types/messages.types';
+import { REQUEST_ID_HISTORY_SIZE } from '../constants';
+import { createResponder } from './responder';
+import { validateUIMessage } from './protocol';
 import {
   handleInit,
   handlePluginReady,
   handleSaveConfig,
+  handleLoadProfiles,
+  handleCreateProfile,
+  handleRenameProfile,
+  handleDuplicateProfile,
+  handleDeleteProfile,
+  handleSwitchProfile,
   handlePreflightTestLocales,
   handlePreflightCheckContent
 } from './config.handler';
@@ -11,25 +20,70 @@ import {
   handleGetTextNodes,
   handleLoadRecords,
   handleLoadMultipleRecords,
-  handleApplyRecordToNodes
+  handleApplyRecordToNodes,
+  handleLoadLocales,
+  handleApplyLocale
 } from './content.handler';
 import {
   handleGetTranslatableNodes,
   handleGetAllContentfulItems,
-  handleSaveContentfulItem
+  handleSaveContentfulItem,
+  handleSaveContentfulItems,
+  handlePublishContentfulItem,
+  handlePublishContentfulItems,
+  handleLinkNodes,
+  handleUnlinkNodes,
+  handleGetPullChanges,
+  handleApplyPullChanges
 } from './write.handler';
+import { handleSyncVariables, handlePushVariables } from './variable.handler';
+import { handleGenerateKeys, handleRenameNodes, handleFindTextMatches } from './key.handler';
 import {
   handleGetWindowSizeState,
   handleResizeWindow,
   handleUpdateMultipleNodes,
   handleSelectNode,
+  handleGetKeyUsages,
+  handleCycleKeyUsage,
+  handleCancelOperation,
   handleCancel
 } from './ui.handler';
 
-// Track last message to prevent duplicate processing
-let lastMessageType: string | null = null;
-let lastMessageTime: number = 0;
-const DUPLICATE_THRESHOLD_MS = 200;
+// Recently received request IDs, oldest first, so a re-sent request is handled once
+const seenRequestIds = new Set<string>();
+const seenRequestOrder: string[] = [];
+
+/**
+ * Record a request ID and report whether it was already received
+ * @param requestId - ID sent by the UI
+ * @returns True if the request was seen before
+ */
+function isDuplicateRequest(requestId: string): boolean {
+  if (seenRequestIds.has(requestId)) {
+    return true;
+  }
+
+  seenRequestIds.add(requestId);
+  seenRequestOrder.push(requestId);
+  if (seenRequestOrder.length > REQUEST_ID_HISTORY_SIZE) {
+    seenRequestIds.delete(seenRequestOrder.shift() as string);
+  }
+  return false;
+}
+
+/**
+ * Read a string property from a message that has not been validated yet
+ * @param raw - Raw message
+ * @param name - Property name
+ * @returns The property if it is a non-empty string, otherwise undefined
+ */
+function readStringProperty(raw: unknown, name: string): string | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+  const value = (raw as Record<string, unknown>)[name];
+  return typeof value === 'string' && value ? value : undefined;
+}
 
 /**
  * Create the main message handler for the plugin
@@ -37,30 +91,34 @@ const DUPLICATE_THRESHOLD_MS = 200;
  * @returns Message handler function
  */
 export function createMessageHandler(enableSelectionTracking: () => void) {
-  return async (msg: UIMessage): Promise<void> => {
-    const handlerStartTime = Date.now();
+  return async (raw: unknown): Promise<void> => {
+    const requestId = readStringProperty(raw, 'requestId');
+
+    // Drop re-sent requests; messages without an ID are always handled
+    if (requestId && isDuplicateRequest(requestId)) {
+      return;
+    }
 
-    // Prevent duplicate processing of the same message type within 200ms
-    const timeSinceLastMessage = handlerStartTime - lastMessageTime;
-    if (msg?.type === lastMessageType && timeSinceLastMessage < DUPLICATE_THRESHOLD_MS) {
+    // Responses and errors are tagged with the request ID
+    const respond = createResponder(requestId);
+
+    // Reject malformed messages before dispatch
+    const validationError = validateUIMessage(raw);
+    if (validationError) {
+      console.error('Invalid message:', validationError);
+      respond({ type: 'invalid-message', message: validationError, messageType: readStringProperty(raw, 'type') });
       return;
     }
 
-    lastMessageType = msg?.type;
-    lastMessageTime = handlerStartTime;
+    const msg = raw as UIMessage;
 
     try {
-      // Validate message structure
-      if (!msg || typeof msg !== 'object' || typeof msg.type !== 'string') {
-        console.error('Invalid message format:', msg);
-        return;
-      }
 
       // Route message to appropriate handler
       switch (msg.type) {
         // Config handlers
         case 'init':
-          await handleInit();
+          await handleInit(respond);
           break;
 
         case 'plugin-ready':
@@ -68,54 +126,142 @@ export function createMessageHandler(enableSelectionTracking: () => void) {
           break;
 
         case 'save-config':
-          await handleSaveConfig(msg.config);
+          await handleSaveConfig(msg.config, respond);
+          break;
+
+        case 'load-profiles':
+          await handleLoadProfiles(respond);
+          break;
+
+        case 'create-profile':
+          await handleCreateProfile(msg.name, msg.config, respond);
+          break;
+
+        case 'rename-profile':
+          await handleRenameProfile(msg.profileId, msg.name, respond);
+          break;
+
+        case 'duplicate-profile':
+          await handleDuplicateProfile(msg.profileId, msg.name, respond);
+          break;
+
+        case 'delete-profile':
+          await handleDeleteProfile(msg.profileId, respond);
+          break;
+
+        case 'switch-profile':
+          await handleSwitchProfile(msg.profileId, respond);
           break;
 
         case 'preflight-test-locales':
-          await handlePreflightTestLocales(msg.config);
+          await handlePreflightTestLocales(msg.config, respond);
           break;
 
         case 'preflight-check-content':
-          await handlePreflightCheckContent(msg.config);
+          await handlePreflightCheckContent(msg.config, respond);
           break;
 
         // Content handlers
         case 'load-content-types':
-          await handleLoadContentTypes(msg.config);
+          await handleLoadContentTypes(msg.config, respond);
           break;
 
         case 'get-text-nodes':
-          handleGetTextNodes();
+          await handleGetTextNodes(msg.scope, respond);
           break;
 
         case 'load-records':
-          await handleLoadRecords(msg.config, msg.contentType);
+          await handleLoadRecords(msg.config, msg.contentType, respond);
           break;
 
         case 'load-multiple-records':
-          await handleLoadMultipleRecords(msg.config, msg.contentTypes);
+          await handleLoadMultipleRecords(msg.config, msg.contentTypes, msg.operationId, respond);
           break;
 
         case 'apply-record-to-nodes':
-          await handleApplyRecordToNodes(msg.mappings, msg.recordFields);
+          await handleApplyRecordToNodes(msg.mappings, msg.recordFields, respond);
+          break;
+
+        case 'load-locales':
+          await handleLoadLocales(msg.config, respond);
+          break;
+
+        case 'apply-locale':
+          await handleApplyLocale(msg.config, msg.locale, msg.scope, respond);
           break;
 
         // Write handlers
         case 'get-translatable-nodes':
-          handleGetTranslatableNodes(msg.config);
+          await handleGetTranslatableNodes(msg.config, msg.scope, respond);
           break;
 
         case 'get-all-contentful-items':
-          await handleGetAllContentfulItems(msg.config);
+          await handleGetAllContentfulItems(msg.config, msg.operationId, respond);
           break;
 
         case 'save-contentful-item':
-          await handleSaveContentfulItem(msg.config, msg.item);
+          await handleSaveContentfulItem(msg.config, msg.item, msg.scope, respond);
+          break;
+
+        case 'save-contentful-items':
+          await handleSaveContentfulItems(msg.config, msg.items, msg.batchId, msg.operationId, msg.scope, respond);
+          break;
+
+        case 'link-nodes':
+          await handleLinkNodes(msg.nodeIds, msg.key, msg.entryId, respond);
+          break;
+
+        case 'unlink-nodes':
+          await handleUnlinkNodes(msg.nodeIds, respond);
+          break;
+
+        case 'get-pull-changes':
+          await handleGetPullChanges(msg.config, msg.scope, msg.operationId, respond);
+          break;
+
+        case 'apply-pull-changes':
+          await handleApplyPullChanges(msg.changes, respond);
+          break;
+
+        case 'generate-keys':
+          await handleGenerateKeys(msg.config, msg.scope, msg.operationId, respond);
+          break;
+
+        case 'rename-nodes':
+          await handleRenameNodes(msg.renames, respond);
+          break;
+
+        case 'find-text-matches':
+          await handleFindTextMatches(msg.config, msg.scope, msg.operationId, respond);
+          break;
+
+        case 'sync-variables':
+          await handleSyncVariables(msg.config, msg.operationId, respond);
+          break;
+
+        case 'push-variables':
+          await handlePushVariables(msg.config, msg.operationId, respond);
+          break;
+
+        case 'publish-contentful-item':
+          await handlePublishContentfulItem(msg.config, msg.entryId, true, respond);
+          break;
+
+        case 'unpublish-contentful-item':
+          await handlePublishContentfulItem(msg.config, msg.entryId, false, respond);
+          break;
+
+        case 'publish-contentful-items':
+          await handlePublishContentfulItems(msg.config, msg.entryIds, true, respond);
+          break;
+
+        case 'unpublish-contentful-items':
+          await handlePublishContentfulItems(msg.config, msg.entryIds, false, respond);
           break;
 
         // UI handlers
         case 'get-window-size-state':
-          await handleGetWindowSizeState();
+          await handleGetWindowSizeState(respond);
           break;
 
         case 'resize-window':
@@ -123,19 +269,34 @@ export function createMessageHandler(enableSelectionTracking: () => void) {
           break;
 
         case 'update-multiple-nodes':
-          await handleUpdateMultipleNodes(msg.nodeIds, msg.newText);
+          await handleUpdateMultipleNodes(msg.nodeIds, msg.newText, respond);
           break;
 
         case 'select-node':
           await handleSelectNode(msg.nodeId);
           break;
 
+        case 'get-key-usages':
+          await handleGetKeyUsages(msg.config, msg.key, respond);
+          break;
+
+        case 'cycle-key-usage':
+          await handleCycleKeyUsage(msg.config, msg.key, msg.step, respond);
+          break;
+
+        case 'cancel-operation':
+          handleCancelOperation(msg.operationId);
+          break;
+
         case 'cancel':
           handleCancel();
           break;
 
-        default:
-          console.warn('Unknown message type:', msg.type);
+        default: {
+          // Every validated type is routed above; this fails to compile when one is missed
+          const unrouted: never = msg;
+          respond({ type: 'invalid-message', message: `Unhandled message type "${(unrouted as UIMessage).type}"` });
+        }
       }
     } catch (error) {
       console.error('Message handler error:', error);
@@ -143,7 +304,7 @@ export function createMessageHandler(enableSelectionTracking: () => void) {
 
       // Send error to UI
       try {
-        figma.ui.postMessage({ type: 'error', message: errorMessage });
+        respond({ type: 'error', message: errorMessage });
       } catch (postError) {
         console.error('Failed to send error to UI:', postError);
       }
@@ -155,4 +316,6 @@ export function createMessageHandler(enableSelectionTracking: () => void) {
 export * from './config.handler';
 export * from './content.handler';
 export * from './write.handler';
+export * from './variable.handler';
+export * from './key.handler';
 export * from './ui.handler';
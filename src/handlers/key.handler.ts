@@ -0,0 +1,124 @@
+import { ContentfulConfig } from '../types/config.types';
+import { ScanScope, NodeRename } from '../types/figma.types';
+import { Responder } from '../types/messages.types';
+import { resolveLocaleContext, fetchAllContentfulItems } from '../services/contentful.service';
+import { loadScope, getUntaggedNodes, getTranslatableNodes, getAllTextNodes, renameNodes } from '../services/node.service';
+import { generateKeyProposals, findTextMatches } from '../services/key.service';
+import { startOperation, finishOperation } from '../services/operation.service';
+import { DEFAULT_SCAN_SCOPE } from '../constants';
+import { postToUI } from './responder';
+
+/**
+ * Handle generate keys request - proposes layer names for untagged text nodes
+ * @param config - Contentful configuration
+ * @param scope - Where to look for untagged nodes
+ * @param operationId - ID the UI can cancel the Contentful load with
+ * @param respond - Sends responses back to the UI
+ */
+export async function handleGenerateKeys(
+  config: ContentfulConfig | undefined,
+  scope: ScanScope = DEFAULT_SCAN_SCOPE,
+  operationId?: string,
+  respond: Responder = postToUI
+): Promise<void> {
+  if (!config) {
+    respond({ type: 'error', message: 'Configuration missing' });
+    return;
+  }
+
+  const operation = startOperation(operationId, 'generate-keys');
+
+  try {
+    await loadScope(scope);
+    const nodes = getUntaggedNodes(config, scope);
+    if (nodes.length === 0) {
+      respond({ type: 'key-proposals-loaded', operationId: operation.id, scope, proposals: [], skipped: [] });
+      return;
+    }
+
+    // Keys already in use - in Contentful and on tagged nodes - decide which names collide
+    const locales = await resolveLocaleContext(config, operation.signal);
+    const items = await fetchAllContentfulItems(config, locales, operation.signal);
+    const documentKeys = new Map<string, string>();
+    getTranslatableNodes(config, scope).forEach(node => documentKeys.set(node.key as string, node.characters));
+
+    const result = generateKeyProposals(nodes, config, items, documentKeys);
+    respond({ type: 'key-proposals-loaded', operationId: operation.id, scope, ...result });
+  } catch (error) {
+    if (operation.signal.aborted) {
+      respond({ type: 'operation-cancelled', operationId: operation.id });
+      return;
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    respond({ type: 'error', message: errorMessage });
+  } finally {
+    finishOperation(operation);
+  }
+}
+
+/**
+ * Handle rename nodes request - applies approved key proposals
+ * @param renames - New layer name per node
+ * @param respond - Sends responses back to the UI
+ */
+export async function handleRenameNodes(
+  renames: NodeRename[],
+  respond: Responder = postToUI
+): Promise<void> {
+  if (renames.length === 0) {
+    respond({ type: 'error', message: 'No keys selected' });
+    return;
+  }
+
+  try {
+    const result = await renameNodes(renames);
+    respond({ type: 'nodes-renamed', ...result });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    respond({ type: 'error', message: errorMessage });
+  }
+}
+
+/**
+ * Handle find text matches request - finds untagged nodes whose text already has a key
+ * @param config - Contentful configuration
+ * @param scope - Where to look for untagged nodes
+ * @param operationId - ID the UI can cancel the Contentful load with
+ * @param respond - Sends responses back to the UI
+ */
+export async function handleFindTextMatches(
+  config: ContentfulConfig | undefined,
+  scope: ScanScope = DEFAULT_SCAN_SCOPE,
+  operationId?: string,
+  respond: Responder = postToUI
+): Promise<void> {
+  if (!config) {
+    respond({ type: 'error', message: 'Configuration missing' });
+    return;
+  }
+
+  const operation = startOperation(operationId, 'find-text-matches');
+
+  try {
+    await loadScope(scope);
+    const tagged = new Set(getTranslatableNodes(config, scope).map(node => node.id));
+    const untagged = getAllTextNodes(scope).filter(node => !tagged.has(node.id));
+    if (untagged.length === 0) {
+      respond({ type: 'text-matches-loaded', operationId: operation.id, scope, matches: [] });
+      return;
+    }
+
+    const locales = await resolveLocaleContext(config, operation.signal);
+    const items = await fetchAllContentfulItems(config, locales, operation.signal);
+    respond({ type: 'text-matches-loaded', operationId: operation.id, scope, matches: findTextMatches(untagged, config, items) });
+  } catch (error) {
+    if (operation.signal.aborted) {
+      respond({ type: 'operation-cancelled', operationId: operation.id });
+      return;
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    respond({ type: 'error', message: errorMessage });
+  } finally {
+    finishOperation(operation);
+  }
+}
@@ -0,0 +1,232 @@
+import { UIMessageType } from '../types/messages.types';
+import { SCAN_SCOPES } from '../constants';
+
+/**
+ * Expected shape of a message field
+ */
+type FieldKind =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'string[]'
+  | 'array'
+  | 'record'
+  | 'config'
+  | 'save-item'
+  | 'save-items'
+  | 'mappings'
+  | 'scope'
+  | 'pull-changes'
+  | 'renames';
+
+/**
+ * Rule for a single message field
+ */
+interface FieldRule {
+  kind: FieldKind;
+  optional?: boolean;
+}
+
+const CONFIG: FieldRule = { kind: 'config' };
+const CONFIG_STRING_FIELDS = [
+  'SPACE_ID',
+  'ENVIRONMENT',
+  'CMA_TOKEN',
+  'CONTENT_TYPE',
+  'KEY_FIELD',
+  'VALUE_FIELD',
+  'NODE_NAME_PATTERN',
+  'TARGET_LOCALE',
+  'KEY_TEMPLATE',
+  'KEY_CASE',
+  'KEY_LINT_RULES',
+  'KEY_MAX_LENGTH'
+];
+const OPERATION_ID: FieldRule = { kind: 'string', optional: true };
+const SCOPE: FieldRule = { kind: 'scope', optional: true };
+
+// Fields each UI request must carry; fields not listed are ignored.
+// Keyed by every request type so a new request can't be added without a rule
+const MESSAGE_FIELDS: Record<UIMessageType, Record<string, FieldRule>> = {
+  'init': {},
+  'plugin-ready': {},
+  'save-config': { config: CONFIG },
+  'load-profiles': {},
+  'create-profile': { name: { kind: 'string' }, config: CONFIG },
+  'rename-profile': { profileId: { kind: 'string' }, name: { kind: 'string' } },
+  'duplicate-profile': { profileId: { kind: 'string' }, name: { kind: 'string', optional: true } },
+  'delete-profile': { profileId: { kind: 'string' } },
+  'switch-profile': { profileId: { kind: 'string' } },
+  'preflight-test-locales': { config: CONFIG },
+  'preflight-check-content': { config: CONFIG },
+  'load-content-types': { config: CONFIG },
+  'get-text-nodes': { scope: SCOPE },
+  'load-records': { config: CONFIG, contentType: { kind: 'string' } },
+  'load-multiple-records': { config: CONFIG, contentTypes: { kind: 'string[]' }, operationId: OPERATION_ID },
+  'apply-record-to-nodes': { mappings: { kind: 'mappings' }, recordFields: { kind: 'record' } },
+  'load-locales': { config: CONFIG },
+  'apply-locale': { config: CONFIG, locale: { kind: 'string' }, scope: SCOPE },
+  'get-translatable-nodes': { config: CONFIG, scope: SCOPE },
+  'get-all-contentful-items': { config: CONFIG, operationId: OPERATION_ID },
+  'save-contentful-item': { config: CONFIG, item: { kind: 'save-item' }, scope: SCOPE },
+  'save-contentful-items': {
+    config: CONFIG,
+    items: { kind: 'save-items' },
+    batchId: { kind: 'string', optional: true },
+    operationId: OPERATION_ID,
+    scope: SCOPE
+  },
+  'link-nodes': { nodeIds: { kind: 'string[]' }, key: { kind: 'string' }, entryId: { kind: 'string' } },
+  'unlink-nodes': { nodeIds: { kind: 'string[]' } },
+  'get-pull-changes': { config: CONFIG, scope: SCOPE, operationId: OPERATION_ID },
+  'apply-pull-changes': { changes: { kind: 'pull-changes' } },
+  'generate-keys': { config: CONFIG, scope: SCOPE, operationId: OPERATION_ID },
+  'rename-nodes': { renames: { kind: 'renames' } },
+  'find-text-matches': { config: CONFIG, scope: SCOPE, operationId: OPERATION_ID },
+  'sync-variables': { config: CONFIG, operationId: OPERATION_ID },
+  'push-variables': { config: CONFIG, operationId: OPERATION_ID },
+  'publish-contentful-item': { config: CONFIG, entryId: { kind: 'string' } },
+  'unpublish-contentful-item': { config: CONFIG, entryId: { kind: 'string' } },
+  'publish-contentful-items': { config: CONFIG, entryIds: { kind: 'string[]' } },
+  'unpublish-contentful-items': { config: CONFIG, entryIds: { kind: 'string[]' } },
+  'get-window-size-state': {},
+  'resize-window': { width: { kind: 'number' }, height: { kind: 'number' }, isCompact: { kind: 'boolean', optional: true } },
+  'update-multiple-nodes': { nodeIds: { kind: 'string[]' }, newText: { kind: 'string' } },
+  'select-node': { nodeId: { kind: 'string' } },
+  'get-key-usages': { config: CONFIG, key: { kind: 'string' } },
+  'cycle-key-usage': { config: CONFIG, key: { kind: 'string' }, step: { kind: 'number', optional: true } },
+  'cancel-operation': { operationId: OPERATION_ID },
+  'cancel': {}
+};
+
+/**
+ * Check whether a value is a plain object
+ * @param value - Value to check
+ * @returns True for non-null, non-array objects
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Check whether a value is an array of strings
+ * @param value - Value to check
+ * @returns True if every element is a string
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+/**
+ * Check whether a value is an item to save
+ * An update must name the entry it updates
+ * @param value - Value to check
+ * @returns True for an item with string key and value and well-typed optional fields
+ */
+function isSaveItem(value: unknown): boolean {
+  return isRecord(value) && typeof value.key === 'string' && typeof value.value === 'string' &&
+    (value.isUpdate === undefined || typeof value.isUpdate === 'boolean') &&
+    (value.entryId === undefined || value.entryId === null || typeof value.entryId === 'string') &&
+    (!value.isUpdate || typeof value.entryId === 'string') &&
+    (value.nodeIds === undefined || isStringArray(value.nodeIds)) &&
+    (value.version === undefined || typeof value.version === 'number') &&
+    (value.allowDuplicate === undefined || typeof value.allowDuplicate === 'boolean');
+}
+
+/**
+ * Check a field value against its expected kind
+ * @param value - Field value
+ * @param kind - Expected kind
+ * @returns Description of the expected shape if the value doesn't match, otherwise null
+ */
+function checkField(value: unknown, kind: FieldKind): string | null {
+  switch (kind) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return typeof value === kind ? null : `a ${kind}`;
+
+    case 'string[]':
+      return isStringArray(value) ? null : 'an array of strings';
+
+    case 'array':
+      return Array.isArray(value) ? null : 'an array';
+
+    case 'record':
+      return isRecord(value) ? null : 'an object';
+
+    case 'config':
+      // Completeness is checked by validateConfig where it matters; here only the shape
+      return isRecord(value) && CONFIG_STRING_FIELDS.every(k => value[k] === undefined || typeof value[k] === 'string')
+        ? null
+        : 'a configuration object with string connection fields';
+
+    case 'save-item':
+      return isSaveItem(value) ? null : 'an item with string key and value';
+
+    case 'save-items':
+      return Array.isArray(value) && value.every(isSaveItem)
+        ? null
+        : 'an array of items with string key and value';
+
+    case 'mappings':
+      return Array.isArray(value) && value.every(m => isRecord(m) && typeof m.field === 'string' && typeof m.node === 'string')
+        ? null
+        : 'an array of field mappings';
+
+    case 'pull-changes':
+      return Array.isArray(value) && value.every(c => isRecord(c) &&
+        ['nodeId', 'nodeName', 'key', 'current', 'incoming'].every(k => typeof c[k] === 'string') &&
+        (c.version === undefined || typeof c.version === 'number'))
+        ? null
+        : 'an array of pull changes';
+
+    case 'renames':
+      return Array.isArray(value) && value.every(r => isRecord(r) && typeof r.nodeId === 'string' &&
+        typeof r.name === 'string' && r.name.trim() !== '')
+        ? null
+        : 'an array of node renames with non-empty names';
+
+    case 'scope':
+      return SCAN_SCOPES.some(scope => scope === value) ? null : `one of ${SCAN_SCOPES.join(', ')}`;
+  }
+}
+
+/**
+ * Validate a message received from the UI
+ * @param msg - Raw message
+ * @returns Error message if invalid, null if the message is a valid UIMessage
+ */
+export function validateUIMessage(msg: unknown): string | null {
+  if (!isRecord(msg) || typeof msg.type !== 'string') {
+    return 'Message must be an object with a string type';
+  }
+
+  if (msg.requestId !== undefined && typeof msg.requestId !== 'string') {
+    return 'Field "requestId" must be a string';
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(MESSAGE_FIELDS, msg.type)) {
+    return `Unknown message type "${msg.type}"`;
+  }
+
+  const fields = MESSAGE_FIELDS[msg.type as UIMessageType];
+  for (const name of Object.keys(fields)) {
+    const rule = fields[name];
+    const value = msg[name];
+
+    if (value === undefined) {
+      if (rule.optional) {
+        continue;
+      }
+      return `Field "${name}" is required for "${msg.type}"`;
+    }
+
+    const expected = checkField(value, rule.kind);
+    if (expected) {
+      return `Field "${name}" of "${msg.type}" must be ${expected}`;
+    }
+  }
+
+  return null;
+}
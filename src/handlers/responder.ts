@@ -0,0 +1,26 @@
+import { PluginMessage, Responder } from '../types/messages.types';
+
+/**
+ * Post a message to the UI without a request ID (unsolicited updates)
+ * @param message - Message to send
+ */
+export function postToUI(message: PluginMessage): void {
+  figma.ui.postMessage(message);
+}
+
+/**
+ * Create a responder for a UI request
+ * Every response is tagged with the request's ID so the UI can match responses
+ * and errors to the request that caused them
+ * @param requestId - ID sent by the UI; responses are untagged when omitted
+ * @returns Function that posts a response to the UI
+ */
+export function createResponder(requestId: string | undefined): Responder {
+  if (!requestId) {
+    return postToUI;
+  }
+
+  return (message: PluginMessage) => {
+    figma.ui.postMessage({ ...message, requestId });
+  };
+}
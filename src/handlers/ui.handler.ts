@@ -1,11 +1,19 @@
-import { selectNode, updateMultipleNodes } from '../services/node.service';
+import { Responder } from '../types/messages.types';
+import { ContentfulConfig } from '../types/config.types';
+import { selectNode, updateMultipleNodes, loadScope, getKeyIndex } from '../services/node.service';
+import { cancelOperation, cancelAllOperations } from '../services/operation.service';
+import { postToUI } from './responder';
+
+// Usage last selected by cycling, so the next cycle continues from it
+let usageCursor: { key: string; index: number } | null = null;
 
 /**
  * Handle window size state request
+ * @param respond - Sends responses back to the UI
  */
-export async function handleGetWindowSizeState(): Promise<void> {
+export async function handleGetWindowSizeState(respond: Responder = postToUI): Promise<void> {
   const isCompact = await figma.clientStorage.getAsync('window-size-compact');
-  figma.ui.postMessage({ type: 'window-size-state', isCompact: isCompact || false });
+  respond({ type: 'window-size-state', isCompact: isCompact || false });
 }
 
 /**
@@ -39,13 +47,15 @@ export async function handleResizeWindow(
  * Handle update multiple nodes request
  * @param nodeIds - Array of node IDs to update
  * @param newText - New text to apply
+ * @param respond - Sends responses back to the UI
  */
 export async function handleUpdateMultipleNodes(
   nodeIds: string[] | undefined,
-  newText: string | undefined
+  newText: string | undefined,
+  respond: Responder = postToUI
 ): Promise<void> {
   if (!nodeIds || !Array.isArray(nodeIds) || nodeIds.length === 0 || newText === undefined) {
-    figma.ui.postMessage({
+    respond({
       type: 'update-multiple-nodes-result',
       success: false,
       error: 'Invalid node IDs or text'
@@ -55,7 +65,7 @@ export async function handleUpdateMultipleNodes(
 
   const result = await updateMultipleNodes(nodeIds, newText);
 
-  figma.ui.postMessage({
+  respond({
     type: 'update-multiple-nodes-result',
     success: result.success,
     count: result.count,
@@ -76,9 +86,92 @@ export async function handleSelectNode(nodeId: string | undefined): Promise<void
   await selectNode(nodeId);
 }
 
+/**
+ * Handle where-used request - every node using a key, across all pages
+ * @param config - Contentful configuration
+ * @param key - Key to look up
+ * @param respond - Sends responses back to the UI
+ */
+export async function handleGetKeyUsages(
+  config: ContentfulConfig | undefined,
+  key: string | undefined,
+  respond: Responder = postToUI
+): Promise<void> {
+  if (!config || !key) {
+    respond({ type: 'error', message: 'Configuration or key missing' });
+    return;
+  }
+
+  try {
+    await loadScope('document');
+    const usages = getKeyIndex(config).get(key) || [];
+    respond({ type: 'key-usages-loaded', key, usages });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    respond({ type: 'error', message: errorMessage });
+  }
+}
+
+/**
+ * Handle cycle request - select the next (or previous) node using a key
+ * Cycling a different key starts from its first usage
+ * @param config - Contentful configuration
+ * @param key - Key whose usages to cycle through
+ * @param step - 1 for the next usage, -1 for the previous one
+ * @param respond - Sends responses back to the UI
+ */
+export async function handleCycleKeyUsage(
+  config: ContentfulConfig | undefined,
+  key: string | undefined,
+  step: number = 1,
+  respond: Responder = postToUI
+): Promise<void> {
+  if (!config || !key) {
+    respond({ type: 'error', message: 'Configuration or key missing' });
+    return;
+  }
+
+  try {
+    await loadScope('document');
+    const usages = getKeyIndex(config).get(key) || [];
+    if (usages.length === 0) {
+      usageCursor = null;
+      respond({ type: 'error', message: `No layers use "${key}"` });
+      return;
+    }
+
+    const total = usages.length;
+    const index = usageCursor && usageCursor.key === key
+      ? (((usageCursor.index + step) % total) + total) % total
+      : (step < 0 ? total - 1 : 0);
+    usageCursor = { key, index };
+
+    const usage = usages[index];
+    await selectNode(usage.nodeId);
+    respond({ type: 'key-usage-selected', key, index, total, usage });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    respond({ type: 'error', message: errorMessage });
+  }
+}
+
+/**
+ * Handle cancel operation request
+ * @param operationId - Operation to cancel; cancels every running operation when omitted
+ */
+export function handleCancelOperation(operationId: string | undefined): void {
+  if (operationId) {
+    cancelOperation(operationId);
+    return;
+  }
+
+  cancelAllOperations();
+}
+
 /**
  * Handle cancel/close plugin request
  */
 export function handleCancel(): void {
+  cancelAllOperations();
   figma.closePlugin();
 }
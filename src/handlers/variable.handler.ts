@@ -0,0 +1,76 @@
+import { ContentfulConfig } from '../types/config.types';
+import { Responder } from '../types/messages.types';
+import { syncVariables, pushVariables } from '../services/variable.service';
+import { startOperation, finishOperation } from '../services/operation.service';
+import { postToUI } from './responder';
+import { saveCheckedItems } from './write.handler';
+
+/**
+ * Handle sync variables request - translations into the locale modes of a string collection
+ * @param config - Contentful configuration
+ * @param operationId - ID the UI can cancel the sync with
+ * @param respond - Sends responses back to the UI
+ */
+export async function handleSyncVariables(
+  config: ContentfulConfig | undefined,
+  operationId?: string,
+  respond: Responder = postToUI
+): Promise<void> {
+  if (!config) {
+    respond({ type: 'error', message: 'Configuration missing' });
+    return;
+  }
+
+  const operation = startOperation(operationId, 'sync-variables');
+
+  try {
+    const result = await syncVariables(config, operation.signal);
+    respond({ type: 'variables-synced', operationId: operation.id, ...result });
+  } catch (error) {
+    if (operation.signal.aborted) {
+      respond({ type: 'operation-cancelled', operationId: operation.id });
+      return;
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    respond({ type: 'error', message: errorMessage });
+  } finally {
+    finishOperation(operation);
+  }
+}
+
+/**
+ * Handle push variables request - edited variable values back to Contentful
+ * @param config - Contentful configuration
+ * @param operationId - ID the UI can cancel the push with
+ * @param respond - Sends responses back to the UI
+ */
+export async function handlePushVariables(
+  config: ContentfulConfig | undefined,
+  operationId?: string,
+  respond: Responder = postToUI
+): Promise<void> {
+  if (!config) {
+    respond({ type: 'error', message: 'Configuration missing' });
+    return;
+  }
+
+  const operation = startOperation(operationId, 'push-variables');
+
+  try {
+    const result = await pushVariables(
+      config,
+      (items, locales, options) => saveCheckedItems(config, items, locales, options),
+      operation.signal
+    );
+    respond({ type: 'variables-pushed', operationId: operation.id, ...result });
+  } catch (error) {
+    if (operation.signal.aborted) {
+      respond({ type: 'operation-cancelled', operationId: operation.id });
+      return;
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    respond({ type: 'error', message: errorMessage });
+  } finally {
+    finishOperation(operation);
+  }
+}
@@ -1,43 +1,302 @@
 import { ContentfulConfig } from '../types/config.types';
-import { ContentfulSaveItem } from '../types/contentful.types';
-import { fetchAllContentfulItems, saveItemToContentful } from '../services/contentful.service';
-import { getTranslatableNodes } from '../services/node.service';
+import {
+  ContentfulItem,
+  ContentfulSaveItem,
+  ContentfulSaveResult,
+  ContentfulBatchSaveOptions,
+  ContentfulBatchSaveResult,
+  LocaleContext,
+  ReuseSuggestion
+} from '../types/contentful.types';
+import { ScanScope, PullChange } from '../types/figma.types';
+import { Responder, AbortSignalLike } from '../types/messages.types';
+import {
+  fetchAllContentfulItems,
+  saveItemToContentful,
+  saveItemsToContentful,
+  resolveLocaleContext,
+  publishEntry,
+  unpublishEntry,
+  setEntriesPublished
+} from '../services/contentful.service';
+import {
+  getTranslatableNodes,
+  bindNodes,
+  unbindNodes,
+  recordSyncBaseline,
+  loadScope,
+  getPullChanges,
+  applyPullChanges
+} from '../services/node.service';
+import { findReuseSuggestions } from '../services/key.service';
+import { lintKey, lintNodes, parseKeyLintRules } from '../services/lint.service';
+import { startOperation, finishOperation } from '../services/operation.service';
+import { DEFAULT_SCAN_SCOPE, LOADED_ITEMS_TTL_MS } from '../constants';
+import { postToUI } from './responder';
+
+// Items of the last full load, reused by single saves instead of fetching every entry per click
+let loadedItems: { source: string; items: Record<string, ContentfulItem>; loadedAt: number } | null = null;
+
+/**
+ * Identify where items were loaded from
+ * @param config - Contentful configuration
+ * @param locales - Locales the items were read in
+ * @returns Space, environment, content type and locales joined
+ */
+function getItemsSource(config: ContentfulConfig, locales: LocaleContext): string {
+  return [config.SPACE_ID, config.ENVIRONMENT, config.CONTENT_TYPE, locales.default, locales.target].join('/');
+}
+
+/**
+ * Fetch all Contentful items and keep them for later single saves
+ * @param config - Contentful configuration
+ * @param locales - Locales to read keys and values in
+ * @param signal - Optional signal that cancels the request
+ * @returns Items by key
+ */
+async function loadContentfulItems(
+  config: ContentfulConfig,
+  locales: LocaleContext,
+  signal?: AbortSignalLike
+): Promise<Record<string, ContentfulItem>> {
+  const items = await fetchAllContentfulItems(config, locales, signal);
+  loadedItems = { source: getItemsSource(config, locales), items, loadedAt: Date.now() };
+  return items;
+}
+
+/**
+ * Get the items of the last full load, if it read the same content and is recent
+ * @param config - Contentful configuration
+ * @param locales - Locales the items must be read in
+ * @returns Items by key, or null if they have to be fetched
+ */
+function getLoadedItems(config: ContentfulConfig, locales: LocaleContext): Record<string, ContentfulItem> | null {
+  if (!loadedItems || loadedItems.source !== getItemsSource(config, locales) ||
+    Date.now() - loadedItems.loadedAt > LOADED_ITEMS_TTL_MS) {
+    return null;
+  }
+  return loadedItems.items;
+}
 
 /**
- * Handle get translatable nodes request
+ * Add a saved item to the loaded items, so the next reuse check sees it
  * @param config - Contentful configuration
+ * @param locales - Locales the item was saved in
+ * @param item - Item that was saved
+ * @param saved - Successful save result
  */
-export function handleGetTranslatableNodes(config: ContentfulConfig | undefined): void {
+function rememberSavedItem(config: ContentfulConfig, locales: LocaleContext, item: ContentfulSaveItem, saved: ContentfulSaveResult): void {
+  const items = getLoadedItems(config, locales);
+  if (items && saved.entryId) {
+    items[item.key] = { value: item.value, id: saved.entryId, version: saved.version || 0, status: 'draft' };
+  }
+}
+
+/**
+ * Handle get translatable nodes request - the nodes come with their key lint issues
+ * @param config - Contentful configuration
+ * @param scope - Where to look for nodes
+ * @param respond - Sends responses back to the UI
+ */
+export async function handleGetTranslatableNodes(
+  config: ContentfulConfig | undefined,
+  scope: ScanScope = DEFAULT_SCAN_SCOPE,
+  respond: Responder = postToUI
+): Promise<void> {
   if (!config) {
-    figma.ui.postMessage({ type: 'error', message: 'Configuration missing' });
+    respond({ type: 'error', message: 'Configuration missing' });
     return;
   }
 
   try {
-    const nodes = getTranslatableNodes(config);
-    figma.ui.postMessage({ type: 'translatable-nodes-loaded', nodes });
+    await loadScope(scope);
+    const nodes = getTranslatableNodes(config, scope);
+    respond({ type: 'translatable-nodes-loaded', nodes, scope, lint: lintNodes(nodes, config) });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    figma.ui.postMessage({ type: 'error', message: errorMessage });
+    respond({ type: 'error', message: errorMessage });
+  }
+}
+
+/**
+ * Bind a saved item's nodes to its entry, so they keep their key if the layer is renamed,
+ * and record the saved value as their sync baseline
+ * @param item - Item that was saved
+ * @param saved - Successful save result with the entry ID and version
+ */
+async function bindSavedNodes(item: ContentfulSaveItem, saved: ContentfulSaveResult): Promise<void> {
+  if (!Array.isArray(item.nodeIds) || item.nodeIds.length === 0) {
+    return;
+  }
+  const result = await bindNodes(item.nodeIds, { key: item.key, entryId: saved.entryId });
+  if (result.errors.length > 0) {
+    console.warn('Some nodes could not be bound:', result.errors);
+  }
+  if (saved.version) {
+    await recordSyncBaseline(item.nodeIds, { value: item.value, version: saved.version });
+  }
+}
+
+/**
+ * Find existing entries that new items could reuse instead of creating a duplicate
+ * Updates and items allowed to duplicate aren't checked
+ * @param config - Contentful configuration
+ * @param items - Items about to be saved
+ * @param locales - Locale the values are compared in
+ * @param signal - Optional signal that cancels the request
+ * @param useLoadedItems - Compare with the items of the last full load when recent
+ * @returns Reuse suggestions by key, for the items that have any
+ */
+async function findReusableEntries(
+  config: ContentfulConfig,
+  items: ContentfulSaveItem[],
+  locales: LocaleContext,
+  signal?: AbortSignalLike,
+  useLoadedItems = false
+): Promise<Map<string, ReuseSuggestion[]>> {
+  const reusable = new Map<string, ReuseSuggestion[]>();
+  const newItems = items.filter(item => !item.isUpdate && !item.allowDuplicate);
+  if (newItems.length === 0) {
+    return reusable;
   }
+
+  const existing = (useLoadedItems && getLoadedItems(config, locales)) ||
+    await fetchAllContentfulItems(config, locales, signal);
+  for (const item of newItems) {
+    const suggestions = findReuseSuggestions(item.value, config, existing, item.key);
+    if (suggestions.length > 0) {
+      reusable.set(item.key, suggestions);
+    }
+  }
+  return reusable;
+}
+
+/**
+ * Describe the error-level lint rules keys break
+ * Besides the key rules, an error-level text-conflict rule is checked against the
+ * nodes of the scan scope, as the UI does, so other senders can't push around it
+ * @param keys - Keys about to be pushed
+ * @param config - Contentful configuration with the lint rules
+ * @param scope - Where to look for nodes using the keys
+ * @returns Error message by key, for the keys breaking error-level rules
+ */
+async function findLintErrors(keys: string[], config: ContentfulConfig, scope: ScanScope): Promise<Map<string, string>> {
+  const messages = new Map<string, string[]>();
+  const add = (key: string, message: string) => {
+    const keyMessages = messages.get(key) || [];
+    if (!keyMessages.includes(message)) {
+      messages.set(key, [...keyMessages, message]);
+    }
+  };
+
+  keys.forEach(key => {
+    lintKey(key, config).filter(issue => issue.severity === 'error').forEach(issue => add(key, issue.message));
+  });
+
+  if (keys.length > 0 && parseKeyLintRules(config)['text-conflict'] === 'error') {
+    await loadScope(scope);
+    lintNodes(getTranslatableNodes(config, scope), config)
+      .filter(issue => issue.rule === 'text-conflict' && keys.includes(issue.key))
+      .forEach(issue => add(issue.key, issue.message));
+  }
+
+  const errors = new Map<string, string>();
+  messages.forEach((keyMessages, key) => {
+    errors.set(key, `Key breaks naming rules: ${keyMessages.join('; ')}`);
+  });
+  return errors;
+}
+
+/**
+ * Describe why a new entry wasn't created
+ * @param suggestions - Entries that could be reused
+ * @returns Error message naming the keys
+ */
+function describeReuse(suggestions: ReuseSuggestion[]): string {
+  return `Same or similar text already exists under ${suggestions.map(s => s.key).join(', ')}`;
+}
+
+/**
+ * Save items, holding back the ones a push must not save: keys breaking error-level
+ * naming rules, and new items that could reuse an existing entry, are reported as failed.
+ * Saved items are remembered for later reuse checks and their nodes are bound
+ * @param config - Contentful configuration
+ * @param items - Items to save, one per key
+ * @param locales - Locales to save the values in
+ * @param options - Concurrency, progress callback and cancel signal
+ * @param scope - Where to look for nodes when checking keys for text conflicts
+ * @returns Summary of the save, including the held back items
+ */
+export async function saveCheckedItems(
+  config: ContentfulConfig,
+  items: ContentfulSaveItem[],
+  locales: LocaleContext,
+  options: ContentfulBatchSaveOptions = {},
+  scope: ScanScope = DEFAULT_SCAN_SCOPE
+): Promise<ContentfulBatchSaveResult> {
+  const savedResults = new Map<string, ContentfulSaveResult>();
+  const lintErrors = await findLintErrors(items.map(item => item.key), config, scope);
+  const lintedItems = items.filter(item => !lintErrors.has(item.key));
+  const reusable = await findReusableEntries(config, lintedItems, locales, options.signal);
+  const summary = await saveItemsToContentful(config, lintedItems.filter(item => !reusable.has(item.key)), locales, {
+    ...options,
+    onProgress: (progress) => {
+      if (progress.result.success) {
+        savedResults.set(progress.key, progress.result);
+      }
+      if (options.onProgress) {
+        options.onProgress(progress);
+      }
+    }
+  });
+
+  for (const item of items) {
+    const saved = savedResults.get(item.key);
+    if (saved) {
+      rememberSavedItem(config, locales, item, saved);
+      await bindSavedNodes(item, saved);
+    }
+  }
+  lintErrors.forEach((error, key) => {
+    summary.failed.push({ key, error });
+  });
+  reusable.forEach((suggestions, key) => {
+    summary.failed.push({ key, error: describeReuse(suggestions), suggestions });
+  });
+  return summary;
 }
 
 /**
  * Handle get all contentful items request
  * @param config - Contentful configuration
+ * @param operationId - ID the UI can cancel the load with
+ * @param respond - Sends responses back to the UI
  */
-export async function handleGetAllContentfulItems(config: ContentfulConfig | undefined): Promise<void> {
+export async function handleGetAllContentfulItems(
+  config: ContentfulConfig | undefined,
+  operationId?: string,
+  respond: Responder = postToUI
+): Promise<void> {
   if (!config) {
-    figma.ui.postMessage({ type: 'error', message: 'Configuration missing' });
+    respond({ type: 'error', message: 'Configuration missing' });
     return;
   }
 
+  const operation = startOperation(operationId, 'load-items');
+
   try {
-    const items = await fetchAllContentfulItems(config);
-    figma.ui.postMessage({ type: 'contentful-items-loaded', items });
+    const locales = await resolveLocaleContext(config, operation.signal);
+    const items = await loadContentfulItems(config, locales, operation.signal);
+    respond({ type: 'contentful-items-loaded', operationId: operation.id, items, locale: locales.target });
   } catch (error) {
+    if (operation.signal.aborted) {
+      respond({ type: 'operation-cancelled', operationId: operation.id });
+      return;
+    }
     const errorMessage = error instanceof Error ? error.message : String(error);
-    figma.ui.postMessage({ type: 'error', message: errorMessage });
+    respond({ type: 'error', message: errorMessage });
+  } finally {
+    finishOperation(operation);
   }
 }
 
@@ -45,24 +304,50 @@ export async function handleGetAllContentfulItems(config: ContentfulConfig | und
  * Handle save contentful item request
  * @param config - Contentful configuration
  * @param item - Item to save
+ * @param scope - Where to look for nodes when checking the key for text conflicts
+ * @param respond - Sends responses back to the UI
  */
 export async function handleSaveContentfulItem(
   config: ContentfulConfig | undefined,
-  item: unknown
+  item: unknown,
+  scope: ScanScope = DEFAULT_SCAN_SCOPE,
+  respond: Responder = postToUI
 ): Promise<void> {
   if (!config || !item) {
-    figma.ui.postMessage({ type: 'error', message: 'Configuration or item missing' });
+    respond({ type: 'error', message: 'Configuration or item missing' });
     return;
   }
 
   try {
     const itemToSave = item as ContentfulSaveItem;
-    const result = await saveItemToContentful(config, itemToSave);
+    const lintError = (await findLintErrors([itemToSave.key], config, scope)).get(itemToSave.key);
+    if (lintError) {
+      respond({ type: 'item-saved', key: itemToSave.key, success: false, error: lintError });
+      return;
+    }
+
+    const locales = await resolveLocaleContext(config);
 
-    figma.ui.postMessage({
+    // Offer existing keys before creating a duplicate string for translators
+    const suggestions = (await findReusableEntries(config, [itemToSave], locales, undefined, true)).get(itemToSave.key);
+    if (suggestions) {
+      respond({ type: 'item-saved', key: itemToSave.key, success: false, suggestions, error: describeReuse(suggestions) });
+      return;
+    }
+
+    const result = await saveItemToContentful(config, itemToSave, locales);
+
+    if (result.success) {
+      rememberSavedItem(config, locales, itemToSave, result);
+      await bindSavedNodes(itemToSave, result);
+    }
+
+    respond({
       type: 'item-saved',
       key: itemToSave.key,
       success: result.success,
+      entryId: result.entryId,
+      conflict: result.conflict,
       error: result.error,
       errorDetails: result.errorDetails
     });
@@ -73,7 +358,7 @@ export async function handleSaveContentfulItem(
       : { exception: String(error) };
     const itemToSave = item as ContentfulSaveItem;
 
-    figma.ui.postMessage({
+    respond({
       type: 'item-saved',
       key: itemToSave.key,
       success: false,
@@ -82,3 +367,248 @@ export async function handleSaveContentfulItem(
     });
   }
 }
+
+/**
+ * Handle bulk save request - saves a whole change set with bounded concurrency,
+ * streaming one progress message per item and a final summary
+ * @param config - Contentful configuration
+ * @param items - Items to save
+ * @param batchId - ID used to correlate progress messages; also the operation ID
+ *   to cancel the batch with unless one is given
+ * @param operationId - ID the UI can cancel the batch with
+ * @param scope - Where to look for nodes when checking keys for text conflicts
+ * @param respond - Sends responses back to the UI
+ */
+export async function handleSaveContentfulItems(
+  config: ContentfulConfig | undefined,
+  items: unknown[] | undefined,
+  batchId: string | undefined,
+  operationId?: string,
+  scope: ScanScope = DEFAULT_SCAN_SCOPE,
+  respond: Responder = postToUI
+): Promise<void> {
+  if (!config || !Array.isArray(items) || items.length === 0) {
+    respond({ type: 'error', message: 'Configuration or items missing' });
+    return;
+  }
+
+  const operation = startOperation(operationId || batchId, 'batch');
+  const id = batchId || operation.id;
+
+  try {
+    const validItems = items.filter((item): item is ContentfulSaveItem =>
+      !!item && typeof (item as ContentfulSaveItem).key === 'string' && typeof (item as ContentfulSaveItem).value === 'string'
+    );
+    // Results are tracked by key, so a key listed twice is saved once
+    const duplicateKeys = new Set<string>();
+    const itemsToSave = validItems.filter((item, index) => {
+      const isDuplicate = validItems.findIndex(other => other.key === item.key) !== index;
+      if (isDuplicate) duplicateKeys.add(item.key);
+      return !isDuplicate;
+    });
+    const locales = await resolveLocaleContext(config, operation.signal);
+    const summary = await saveCheckedItems(config, itemsToSave, locales, {
+      signal: operation.signal,
+      onProgress: (progress) => {
+        respond({
+          type: 'item-save-progress',
+          batchId: id,
+          key: progress.key,
+          completed: progress.completed,
+          total: progress.total,
+          success: progress.result.success,
+          entryId: progress.result.entryId,
+          conflict: progress.result.conflict,
+          error: progress.result.error,
+          errorDetails: progress.result.errorDetails
+        });
+      }
+    }, scope);
+    duplicateKeys.forEach(key => {
+      summary.failed.push({ key, error: 'Key is listed more than once - only its first item was saved' });
+    });
+
+    respond({
+      type: 'items-saved',
+      batchId: id,
+      operationId: operation.id,
+      ...summary,
+      invalid: items.length - validItems.length
+    });
+  } catch (error) {
+    if (operation.signal.aborted) {
+      respond({ type: 'operation-cancelled', operationId: operation.id, batchId: id });
+      return;
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    respond({ type: 'error', message: errorMessage });
+  } finally {
+    finishOperation(operation);
+  }
+}
+
+/**
+ * Handle publish or unpublish request for a single entry
+ * @param config - Contentful configuration
+ * @param entryId - Entry to change
+ * @param publish - True to publish, false to unpublish
+ * @param respond - Sends responses back to the UI
+ */
+export async function handlePublishContentfulItem(
+  config: ContentfulConfig | undefined,
+  entryId: string | undefined,
+  publish: boolean,
+  respond: Responder = postToUI
+): Promise<void> {
+  if (!config || !entryId) {
+    respond({ type: 'error', message: 'Configuration or entry ID missing' });
+    return;
+  }
+
+  const result = publish
+    ? await publishEntry(config, entryId)
+    : await unpublishEntry(config, entryId);
+
+  respond({
+    type: publish ? 'item-published' : 'item-unpublished',
+    entryId: result.entryId,
+    success: result.success,
+    error: result.error,
+    errorDetails: result.errorDetails
+  });
+}
+
+/**
+ * Handle bulk publish or unpublish request
+ * @param config - Contentful configuration
+ * @param entryIds - Entries to change
+ * @param publish - True to publish, false to unpublish
+ * @param respond - Sends responses back to the UI
+ */
+export async function handlePublishContentfulItems(
+  config: ContentfulConfig | undefined,
+  entryIds: string[] | undefined,
+  publish: boolean,
+  respond: Responder = postToUI
+): Promise<void> {
+  if (!config || !Array.isArray(entryIds) || entryIds.length === 0) {
+    respond({ type: 'error', message: 'Configuration or entry IDs missing' });
+    return;
+  }
+
+  const results = await setEntriesPublished(config, entryIds, publish);
+  const succeeded = results.filter(r => r.success).length;
+
+  respond({
+    type: publish ? 'items-published' : 'items-unpublished',
+    succeeded,
+    failed: results.length - succeeded,
+    results
+  });
+}
+
+/**
+ * Handle pull diff request - nodes whose text differs from Contentful
+ * @param config - Contentful configuration
+ * @param scope - Where to look for nodes
+ * @param operationId - ID the UI can cancel the load with
+ * @param respond - Sends responses back to the UI
+ */
+export async function handleGetPullChanges(
+  config: ContentfulConfig | undefined,
+  scope: ScanScope = DEFAULT_SCAN_SCOPE,
+  operationId?: string,
+  respond: Responder = postToUI
+): Promise<void> {
+  if (!config) {
+    respond({ type: 'error', message: 'Configuration missing' });
+    return;
+  }
+
+  const operation = startOperation(operationId, 'pull');
+
+  try {
+    await loadScope(scope);
+    const locales = await resolveLocaleContext(config, operation.signal);
+    const items = await loadContentfulItems(config, locales, operation.signal);
+    const changes = getPullChanges(items, config, scope);
+    respond({ type: 'pull-changes-loaded', operationId: operation.id, changes, locale: locales.target, scope });
+  } catch (error) {
+    if (operation.signal.aborted) {
+      respond({ type: 'operation-cancelled', operationId: operation.id });
+      return;
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    respond({ type: 'error', message: errorMessage });
+  } finally {
+    finishOperation(operation);
+  }
+}
+
+/**
+ * Handle apply pull request - write the selected Contentful values to their nodes
+ * @param changes - Changes selected from the pull diff
+ * @param respond - Sends responses back to the UI
+ */
+export async function handleApplyPullChanges(
+  changes: PullChange[] | undefined,
+  respond: Responder = postToUI
+): Promise<void> {
+  if (!changes || changes.length === 0) {
+    respond({ type: 'error', message: 'No changes selected' });
+    return;
+  }
+
+  const result = await applyPullChanges(changes);
+  respond({ type: 'pull-applied', ...result });
+}
+
+/**
+ * Handle link request - binds text nodes to an existing entry
+ * @param nodeIds - Nodes to bind
+ * @param key - Key of the entry
+ * @param entryId - Entry to bind to
+ * @param respond - Sends responses back to the UI
+ */
+export async function handleLinkNodes(
+  nodeIds: string[],
+  key: string,
+  entryId: string,
+  respond: Responder = postToUI
+): Promise<void> {
+  if (nodeIds.length === 0 || !key.trim()) {
+    respond({ type: 'error', message: 'Nodes or key missing' });
+    return;
+  }
+
+  try {
+    const result = await bindNodes(nodeIds, { key: key.trim(), entryId });
+    respond({ type: 'nodes-linked', key: key.trim(), entryId, ...result });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    respond({ type: 'error', message: errorMessage });
+  }
+}
+
+/**
+ * Handle unlink request - removes stored bindings so nodes are matched by layer name again
+ * @param nodeIds - Nodes to unbind
+ * @param respond - Sends responses back to the UI
+ */
+export async function handleUnlinkNodes(
+  nodeIds: string[],
+  respond: Responder = postToUI
+): Promise<void> {
+  if (nodeIds.length === 0) {
+    respond({ type: 'error', message: 'Nodes missing' });
+    return;
+  }
+
+  try {
+    const result = await unbindNodes(nodeIds);
+    respond({ type: 'nodes-unlinked', ...result });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    respond({ type: 'error', message: errorMessage });
+  }
+}
@@ -1,7 +1,9 @@
 // ConteFi - Figma plugin for Contentful-based translations
 
 import { createMessageHandler } from './handlers';
+import { postToUI } from './handlers/responder';
 import { loadConfigFromStorage } from './services/config.service';
+import { getNodeKey } from './services/node.service';
 import { SELECTION_DEBOUNCE_MS } from './constants';
 
 // Initialize UI
@@ -41,14 +43,17 @@ function enableSelectionTracking(): void {
           // Get current config
           const currentConfig = await configData;
 
-          // Check if node name matches the configured pattern
+          // Check if node is bound or its name matches the configured pattern
+          let key = textNode.name;
           if (currentConfig && currentConfig.NODE_NAME_PATTERN) {
             try {
               const pattern = new RegExp(currentConfig.NODE_NAME_PATTERN);
-              if (!pattern.test(textNode.name)) {
-                // Node name doesn't match pattern - ignore this selection
+              const nodeKey = getNodeKey(textNode, pattern);
+              if (nodeKey === null) {
+                // Node isn't translatable - ignore this selection
                 return;
               }
+              key = nodeKey;
             } catch (e) {
               console.warn('Invalid regex pattern in config:', e);
               return;
@@ -64,10 +69,11 @@ function enableSelectionTracking(): void {
             characters = '[Unable to read text]';
           }
 
-          figma.ui.postMessage({
+          postToUI({
             type: 'text-node-selected',
             nodeName: textNode.name || '[Unnamed]',
-            nodeText: characters
+            nodeText: characters,
+            key
           });
         }
       } catch (error) {
@@ -93,4 +99,9 @@ figma.ui.onmessage = async (msg) => {
   if (msg.type === 'save-config' && msg.config) {
     configData = Promise.resolve(msg.config);
   }
+
+  // Profile changes can replace the active config
+  if (msg.type === 'create-profile' || msg.type === 'delete-profile' || msg.type === 'switch-profile') {
+    configData = loadConfigFromStorage();
+  }
 };
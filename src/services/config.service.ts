@@ -1,5 +1,22 @@
-import { ContentfulConfig } from '../types';
-import { defaultConfig } from '../constants';
+import { ContentfulConfig, ConnectionProfile, ProfileStore } from '../types';
+import {
+  defaultConfig,
+  DEFAULT_PROFILE_NAME,
+  NODE_KEY_GROUP,
+  KEY_TEMPLATE_TOKENS,
+  KEY_CASES,
+  DOCUMENT_CONFIG_NAMESPACE,
+  DOCUMENT_CONFIG_KEY,
+  LOCAL_ONLY_CONFIG_FIELDS,
+  OPTIONAL_CONFIG_FIELDS
+} from '../constants';
+import { parseKeyLintRules, getKeyMaxLength } from './lint.service';
+
+const CONFIG_STORAGE_KEY = 'translatorwiz_config';
+const PROFILES_STORAGE_KEY = 'translatorwiz_profiles';
+
+// Disambiguates profile IDs generated within the same millisecond
+let profileIdCounter = 0;
 
 /**
  * Validate configuration - checks all required fields
@@ -30,15 +47,53 @@ export function validateConfig(config: ContentfulConfig): string | null {
   }
 
   // Validate regex pattern
+  let groupNames: string[];
   try {
-    new RegExp(config.NODE_NAME_PATTERN);
+    groupNames = getNamedGroups(config.NODE_NAME_PATTERN);
   } catch {
     return `Invalid regex pattern: ${config.NODE_NAME_PATTERN}`;
   }
 
+  // Named groups are optional, but if the pattern uses them one must hold the key
+  if (groupNames.length > 0 && !groupNames.includes(NODE_KEY_GROUP)) {
+    return `NODE_NAME_PATTERN must name its key group (?<${NODE_KEY_GROUP}>...)`;
+  }
+
+  // Key generation settings are optional
+  if (config.KEY_TEMPLATE) {
+    const unknownToken = (config.KEY_TEMPLATE.match(/\{[^}]*\}/g) || [])
+      .find(token => !KEY_TEMPLATE_TOKENS.includes(token.slice(1, -1)));
+    if (unknownToken) {
+      return `Unknown KEY_TEMPLATE token ${unknownToken} - use ${KEY_TEMPLATE_TOKENS.map(t => `{${t}}`).join(', ')}`;
+    }
+  }
+  if (config.KEY_CASE && !KEY_CASES.some(keyCase => keyCase === config.KEY_CASE)) {
+    return `KEY_CASE must be one of ${KEY_CASES.join(', ')}`;
+  }
+
+  // Key lint settings are optional too
+  try {
+    parseKeyLintRules(config);
+    getKeyMaxLength(config);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
   return null;
 }
 
+/**
+ * List the named capture groups of a pattern
+ * @param pattern - Regex source
+ * @returns Group names, empty if the pattern has none
+ * @throws SyntaxError if the pattern is invalid
+ */
+function getNamedGroups(pattern: string): string[] {
+  // An empty alternative always matches, and the match lists every named group
+  const match = new RegExp(`(?:${pattern})|`).exec('') as (RegExpExecArray & { groups?: Record<string, string> }) | null;
+  return match && match.groups ? Object.keys(match.groups) : [];
+}
+
 /**
  * Merge partial config with defaults
  * @param stored - Partial config from storage
@@ -52,27 +107,355 @@ export function mergeWithDefaults(stored: Partial<ContentfulConfig> | null): Con
 }
 
 /**
- * Load configuration from Figma client storage
+ * Read the settings stored in the current document
+ * @returns Document settings, or null if the document has none
+ */
+export function loadDocumentConfig(): Partial<ContentfulConfig> | null {
+  let raw: string | undefined;
+  try {
+    raw = figma.root.getSharedPluginData(DOCUMENT_CONFIG_NAMESPACE, DOCUMENT_CONFIG_KEY);
+  } catch (e) {
+    console.error('Failed to read document settings:', e);
+    return null;
+  }
+  if (!raw) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    console.warn('Ignoring malformed document settings');
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object') {
+    return null;
+  }
+
+  // Only accept known, shareable string fields - a document can't supply a token
+  const settings: Partial<ContentfulConfig> = {};
+  const fields = [...Object.keys(defaultConfig) as Array<keyof ContentfulConfig>, ...OPTIONAL_CONFIG_FIELDS];
+  for (const field of fields) {
+    const value = (parsed as Record<string, unknown>)[field];
+    if (typeof value === 'string' && !LOCAL_ONLY_CONFIG_FIELDS.includes(field)) {
+      settings[field] = value;
+    }
+  }
+  return Object.keys(settings).length > 0 ? settings : null;
+}
+
+/**
+ * Store the non-secret settings in the current document, shared with everyone who opens it
+ * @param config - Configuration to store
+ */
+export function saveDocumentConfig(config: ContentfulConfig): void {
+  const settings: Partial<ContentfulConfig> = { ...config };
+  LOCAL_ONLY_CONFIG_FIELDS.forEach(field => delete settings[field]);
+
+  try {
+    figma.root.setSharedPluginData(DOCUMENT_CONFIG_NAMESPACE, DOCUMENT_CONFIG_KEY, JSON.stringify(settings));
+  } catch {
+    throw new Error('Failed to save settings to the document');
+  }
+}
+
+/**
+ * Find the user's token for the document's space
+ * Prefers the local config, then a profile for the same space
+ * @param local - Config from client storage
+ * @param spaceId - Space the document is bound to
+ * @returns CMA token, or the local token if no profile matches
+ */
+async function findTokenForSpace(local: ContentfulConfig, spaceId: string | undefined): Promise<string> {
+  if (!spaceId || local.SPACE_ID === spaceId) {
+    return local.CMA_TOKEN;
+  }
+
+  const store = await readProfileStore();
+  const match = store && store.profiles.find(p => p.config.SPACE_ID === spaceId && p.config.CMA_TOKEN);
+  return match ? match.config.CMA_TOKEN : local.CMA_TOKEN;
+}
+
+/**
+ * Load configuration for the current document
+ * Document settings take precedence; the CMA token always comes from the user's client storage
  * @returns Promise resolving to the loaded config
  */
 export async function loadConfigFromStorage(): Promise<ContentfulConfig> {
+  let local: ContentfulConfig;
   try {
-    const stored = await figma.clientStorage.getAsync('translatorwiz_config');
-    return mergeWithDefaults(stored as Partial<ContentfulConfig> | null);
+    const stored = await figma.clientStorage.getAsync(CONFIG_STORAGE_KEY);
+    local = mergeWithDefaults(stored as Partial<ContentfulConfig> | null);
   } catch (e) {
     console.error('Failed to load config from storage:', e);
-    return { ...defaultConfig };
+    local = { ...defaultConfig };
+  }
+
+  const documentConfig = loadDocumentConfig();
+  if (!documentConfig) {
+    return local;
+  }
+
+  const token = await findTokenForSpace(local, documentConfig.SPACE_ID);
+  return { ...local, ...documentConfig, CMA_TOKEN: token };
+}
+
+/**
+ * Store a configuration in the user's client storage
+ * @param config - Configuration to store
+ */
+async function storeConfig(config: ContentfulConfig): Promise<void> {
+  try {
+    await figma.clientStorage.setAsync(CONFIG_STORAGE_KEY, config);
+  } catch {
+    throw new Error('Failed to save config to storage');
   }
 }
 
 /**
- * Save configuration to Figma client storage
+ * Save configuration to the current document and Figma client storage
+ * The document is written first, so a file that can't be edited leaves nothing saved;
+ * if client storage then fails, the document's previous settings are put back.
+ * The active profile is updated to match
  * @param config - Configuration to save
+ * @throws Error if the document or client storage can't be written
  */
 export async function saveConfigToStorage(config: ContentfulConfig): Promise<void> {
+  const previousSettings = figma.root.getSharedPluginData(DOCUMENT_CONFIG_NAMESPACE, DOCUMENT_CONFIG_KEY);
+  saveDocumentConfig(config);
+  try {
+    await storeConfig(config);
+  } catch (error) {
+    figma.root.setSharedPluginData(DOCUMENT_CONFIG_NAMESPACE, DOCUMENT_CONFIG_KEY, previousSettings);
+    throw error;
+  }
+
+  const store = await readProfileStore();
+  if (!store) {
+    await writeProfileStore(createDefaultStore(config));
+    return;
+  }
+
+  const active = getProfile(store, store.activeProfileId);
+  active.config = config;
+  await writeProfileStore(store);
+}
+
+/**
+ * Check that a stored value looks like a profile store
+ * @param value - Value read from storage
+ * @returns True if the value has an active profile ID and a non-empty profile list
+ */
+function isProfileStore(value: unknown): value is ProfileStore {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const store = value as ProfileStore;
+  return typeof store.activeProfileId === 'string' &&
+    Array.isArray(store.profiles) &&
+    store.profiles.length > 0 &&
+    store.profiles.some(p => p && p.id === store.activeProfileId);
+}
+
+/**
+ * Read the profile store from client storage
+ * @returns The stored profiles, or null if none are stored yet
+ */
+async function readProfileStore(): Promise<ProfileStore | null> {
   try {
-    await figma.clientStorage.setAsync('translatorwiz_config', config);
+    const stored = await figma.clientStorage.getAsync(PROFILES_STORAGE_KEY);
+    return isProfileStore(stored) ? stored : null;
+  } catch (e) {
+    console.error('Failed to load profiles from storage:', e);
+    return null;
+  }
+}
+
+/**
+ * Write the profile store to client storage
+ * @param store - Profiles to save
+ */
+async function writeProfileStore(store: ProfileStore): Promise<void> {
+  try {
+    await figma.clientStorage.setAsync(PROFILES_STORAGE_KEY, store);
   } catch {
-    throw new Error('Failed to save config to storage');
+    throw new Error('Failed to save profiles to storage');
+  }
+}
+
+/**
+ * Generate a unique profile ID
+ * @returns New profile ID
+ */
+function generateProfileId(): string {
+  profileIdCounter += 1;
+  return `profile-${Date.now()}-${profileIdCounter}`;
+}
+
+/**
+ * Create a store holding a single default profile
+ * @param config - Configuration for the default profile
+ * @returns New profile store
+ */
+function createDefaultStore(config: ContentfulConfig): ProfileStore {
+  const id = generateProfileId();
+  return {
+    activeProfileId: id,
+    profiles: [{ id, name: DEFAULT_PROFILE_NAME, config }]
+  };
+}
+
+/**
+ * Find a profile by ID
+ * @param store - Profile store
+ * @param profileId - Profile to find
+ * @returns The profile
+ */
+function getProfile(store: ProfileStore, profileId: string): ConnectionProfile {
+  const profile = store.profiles.find(p => p.id === profileId);
+  if (!profile) {
+    throw new Error(`Profile "${profileId}" not found`);
+  }
+  return profile;
+}
+
+/**
+ * Validate a profile name
+ * @param store - Profile store
+ * @param name - Proposed name
+ * @param profileId - Profile being renamed, excluded from the uniqueness check
+ * @returns The trimmed name
+ */
+function checkProfileName(store: ProfileStore, name: string, profileId?: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Profile name is required');
   }
+  const taken = store.profiles.some(p => p.id !== profileId && p.name.toLowerCase() === trimmed.toLowerCase());
+  if (taken) {
+    throw new Error(`A profile named "${trimmed}" already exists`);
+  }
+  return trimmed;
+}
+
+/**
+ * Check a profile's configuration with validateConfig
+ * @param name - Profile name, for the error message
+ * @param config - Configuration to check
+ */
+function checkProfileConfig(name: string, config: ContentfulConfig): void {
+  const configError = validateConfig(config);
+  if (configError) {
+    throw new Error(`Profile "${name}": ${configError}`);
+  }
+}
+
+/**
+ * Make a profile active and store its configuration as the current config
+ * Only the user's own storage changes: the document's settings are shared with
+ * everyone who opens it, and change on an explicit save only
+ * @param store - Profile store
+ * @param profile - Profile to activate
+ */
+async function activateProfile(store: ProfileStore, profile: ConnectionProfile): Promise<void> {
+  store.activeProfileId = profile.id;
+  await writeProfileStore(store);
+  await storeConfig(profile.config);
+}
+
+/**
+ * Load connection profiles, creating a default profile from the current config on first use
+ * @returns The profile store
+ */
+export async function loadProfiles(): Promise<ProfileStore> {
+  const store = await readProfileStore();
+  if (store) {
+    return store;
+  }
+
+  const created = createDefaultStore(await loadConfigFromStorage());
+  await writeProfileStore(created);
+  return created;
+}
+
+/**
+ * Create a profile and make it active
+ * @param name - Profile name
+ * @param config - Connection settings for the profile
+ * @returns The updated profile store
+ */
+export async function createProfile(name: string, config: ContentfulConfig): Promise<ProfileStore> {
+  const store = await loadProfiles();
+  const profileName = checkProfileName(store, name);
+  const profileConfig = mergeWithDefaults(config);
+  checkProfileConfig(profileName, profileConfig);
+
+  const profile: ConnectionProfile = { id: generateProfileId(), name: profileName, config: profileConfig };
+  store.profiles.push(profile);
+  await activateProfile(store, profile);
+  return store;
+}
+
+/**
+ * Rename a profile
+ * @param profileId - Profile to rename
+ * @param name - New name
+ * @returns The updated profile store
+ */
+export async function renameProfile(profileId: string, name: string): Promise<ProfileStore> {
+  const store = await loadProfiles();
+  const profile = getProfile(store, profileId);
+  profile.name = checkProfileName(store, name, profileId);
+  await writeProfileStore(store);
+  return store;
+}
+
+/**
+ * Copy a profile under a new name; the active profile is unchanged
+ * @param profileId - Profile to copy
+ * @param name - Name for the copy; defaults to the original name with " (copy)"
+ * @returns The updated profile store
+ */
+export async function duplicateProfile(profileId: string, name?: string): Promise<ProfileStore> {
+  const store = await loadProfiles();
+  const source = getProfile(store, profileId);
+  const profileName = checkProfileName(store, name || `${source.name} (copy)`);
+  checkProfileConfig(profileName, source.config);
+
+  store.profiles.push({ id: generateProfileId(), name: profileName, config: { ...source.config } });
+  await writeProfileStore(store);
+  return store;
+}
+
+/**
+ * Delete a profile; deleting the active profile switches to the first remaining one
+ * @param profileId - Profile to delete
+ * @returns The updated profile store
+ */
+export async function deleteProfile(profileId: string): Promise<ProfileStore> {
+  const store = await loadProfiles();
+  getProfile(store, profileId);
+  if (store.profiles.length === 1) {
+    throw new Error('Cannot delete the only profile');
+  }
+
+  store.profiles = store.profiles.filter(p => p.id !== profileId);
+  if (store.activeProfileId === profileId) {
+    await activateProfile(store, store.profiles[0]);
+  } else {
+    await writeProfileStore(store);
+  }
+  return store;
+}
+
+/**
+ * Switch to another profile, making its configuration the current config
+ * @param profileId - Profile to activate
+ * @returns The updated profile store
+ */
+export async function switchProfile(profileId: string): Promise<ProfileStore> {
+  const store = await loadProfiles();
+  await activateProfile(store, getProfile(store, profileId));
+  return store;
 }
@@ -4,30 +4,88 @@ import {
   Translation,
   ContentfulLocaleItem,
   ContentfulTranslationItem,
+  ContentfulEntriesPage,
   ContentfulField,
   ContentfulSaveItem,
-  ContentfulSaveResult
+  ContentfulSaveResult,
+  ContentfulSaveConflict,
+  ContentfulPublishResult,
+  ContentfulItem,
+  ContentfulBatchSaveOptions,
+  ContentfulBatchSaveResult,
+  LocaleContext,
+  PublishStatus
 } from '../types/contentful.types';
-import { API_TIMEOUT } from '../constants';
-import { fetchWithTimeout } from './network.service';
+import { API_TIMEOUT, FALLBACK_LOCALE, SAVE_CONCURRENCY, ENTRIES_PAGE_LIMIT } from '../constants';
+import { AbortSignalLike, FetchOptions } from '../types/messages.types';
+import { fetchWithRetry, getRetryAttempts } from './network.service';
+
+/**
+ * Read a field value that is either plain or localized (CMA format: { 'en-US': 'Hello' })
+ * @param field - Raw field value from the entry
+ * @param locale - Locale code to read
+ * @param fallbackToFirst - Use the first available locale when the requested one is missing
+ * @returns The string value or an empty string
+ */
+function readLocalizedField(field: unknown, locale: string, fallbackToFirst: boolean): string {
+  if (typeof field === 'string') {
+    return field;
+  }
+
+  if (field && typeof field === 'object') {
+    const localized = field as Record<string, unknown>;
+    let value = localized[locale];
+    if (value === undefined && fallbackToFirst) {
+      value = localized[Object.keys(localized)[0]];
+    }
+    return typeof value === 'string' ? value : '';
+  }
+
+  return '';
+}
+
+/**
+ * Locale context derived from config alone, used when the caller did not resolve one
+ * @param config - Contentful configuration
+ * @returns Configured target locale (or the fallback) with the fallback as default
+ */
+function configuredLocaleContext(config: ContentfulConfig): LocaleContext {
+  const configured = config.TARGET_LOCALE ? config.TARGET_LOCALE.trim() : '';
+  return { target: configured || FALLBACK_LOCALE, default: FALLBACK_LOCALE };
+}
+
+/**
+ * Derive an entry's publish state from its sys metadata
+ * Publishing bumps the version, so an unchanged published entry is exactly one version ahead
+ * @param sys - Entry sys object
+ * @returns Publish status
+ */
+function getPublishStatus(sys: { version?: number; publishedVersion?: number }): PublishStatus {
+  if (typeof sys.publishedVersion !== 'number') {
+    return 'draft';
+  }
+  return sys.version === sys.publishedVersion + 1 ? 'published' : 'changed';
+}
 
 /**
  * Fetch available locales from Contentful
  * @param config - Contentful configuration
- * @returns Array of locale objects with code and name
+ * @param signal - Optional signal that cancels the request
+ * @returns Array of locale objects with code, name, default flag and fallback code
  */
-export async function fetchLocales(config: ContentfulConfig): Promise<Locale[]> {
+export async function fetchLocales(config: ContentfulConfig, signal?: AbortSignalLike): Promise<Locale[]> {
   const spaceId = encodeURIComponent(config.SPACE_ID);
   const environment = encodeURIComponent(config.ENVIRONMENT);
   const url = `https://api.contentful.com/spaces/${spaceId}/environments/${environment}/locales`;
   const options = {
     headers: {
       'Authorization': `Bearer ${config.CMA_TOKEN}`
-    }
+    },
+    signal
   };
 
   try {
-    const response = await fetchWithTimeout(url, options, API_TIMEOUT);
+    const response = await fetchWithRetry(url, options, API_TIMEOUT);
 
     if (!response.ok) {
       if (response.status === 401 || response.status === 403) {
@@ -48,7 +106,9 @@ export async function fetchLocales(config: ContentfulConfig): Promise<Locale[]>
     return data.items
       .map((item: ContentfulLocaleItem) => ({
         code: (item && typeof item.code === 'string') ? item.code : '',
-        name: (item && typeof item.name === 'string') ? item.name : ''
+        name: (item && typeof item.name === 'string') ? item.name : '',
+        default: !!(item && item.default === true),
+        fallbackCode: (item && typeof item.fallbackCode === 'string') ? item.fallbackCode : null
       }))
       .filter((item: Locale) => item.code.trim() !== '' && item.name.trim() !== '');
   } catch (error) {
@@ -59,14 +119,70 @@ export async function fetchLocales(config: ContentfulConfig): Promise<Locale[]>
   }
 }
 
+/**
+ * Resolve the locales to read and write entries with
+ * Uses TARGET_LOCALE when configured, otherwise the space's default locale
+ * @param config - Contentful configuration
+ * @param signal - Optional signal that cancels the request
+ * @returns Target and default locale codes
+ * @throws Error if locales cannot be fetched or TARGET_LOCALE does not exist
+ */
+export async function resolveLocaleContext(config: ContentfulConfig, signal?: AbortSignalLike): Promise<LocaleContext> {
+  return pickLocaleContext(config, await fetchLocales(config, signal));
+}
+
+/**
+ * Pick the locales to read and write entries with from the space's locales
+ * Uses TARGET_LOCALE when configured, otherwise the space's default locale
+ * @param config - Contentful configuration
+ * @param locales - Locales of the space, as loaded by fetchLocales
+ * @returns Target and default locale codes
+ * @throws Error if TARGET_LOCALE does not exist
+ */
+export function pickLocaleContext(config: ContentfulConfig, locales: Locale[]): LocaleContext {
+  const defaultLocale = locales.find(l => l.default);
+  const defaultCode = defaultLocale ? defaultLocale.code : FALLBACK_LOCALE;
+
+  const configured = config.TARGET_LOCALE ? config.TARGET_LOCALE.trim() : '';
+  if (configured && !locales.some(l => l.code === configured)) {
+    throw new Error(`Locale "${configured}" not found in this environment`);
+  }
+
+  return { target: configured || defaultCode, default: defaultCode };
+}
+
+/**
+ * List the locales a locale falls back to, in the order Contentful follows them
+ * @param locales - Locales of the space, as loaded by fetchLocales
+ * @param code - Locale to start from
+ * @returns Fallback locale codes, nearest first; stops at a locale without a fallback or a cycle
+ */
+export function getFallbackChain(locales: Locale[], code: string): string[] {
+  const chain: string[] = [];
+  let current = locales.find(l => l.code === code);
+  while (current && current.fallbackCode && current.fallbackCode !== code && !chain.includes(current.fallbackCode)) {
+    const fallbackCode: string = current.fallbackCode;
+    chain.push(fallbackCode);
+    current = locales.find(l => l.code === fallbackCode);
+  }
+  return chain;
+}
+
 /**
  * Fetch translations for a specific locale from Contentful
+ * Keys are read in the default locale, like every other read, so they match the same entries
  * @param config - Contentful configuration
- * @param locale - Locale code to fetch translations for
+ * @param locales - Locales to read keys (default) and values (target) in
+ * @param fallbacks - Locales to read a value from when the target has none, nearest first
  * @returns Array of translation key-value pairs
  */
-export async function fetchTranslations(config: ContentfulConfig, locale: string): Promise<Translation[]> {
+export async function fetchTranslations(
+  config: ContentfulConfig,
+  locales: LocaleContext,
+  fallbacks: string[] = []
+): Promise<Translation[]> {
   // Validate and sanitize locale input
+  const locale = locales.target;
   if (!locale || typeof locale !== 'string' || locale.trim() === '') {
     throw new Error('Invalid locale');
   }
@@ -74,9 +190,9 @@ export async function fetchTranslations(config: ContentfulConfig, locale: string
   const spaceId = encodeURIComponent(config.SPACE_ID);
   const environment = encodeURIComponent(config.ENVIRONMENT);
   const contentType = encodeURIComponent(config.CONTENT_TYPE);
-  const localeParam = encodeURIComponent(locale.trim());
 
-  const url = `https://api.contentful.com/spaces/${spaceId}/environments/${environment}/entries?content_type=${contentType}&locale=${localeParam}`;
+  // No locale parameter: it would leave out the default locale the keys are read in
+  const url = `https://api.contentful.com/spaces/${spaceId}/environments/${environment}/entries?content_type=${contentType}`;
   const options = {
     headers: {
       'Authorization': `Bearer ${config.CMA_TOKEN}`
@@ -84,30 +200,30 @@ export async function fetchTranslations(config: ContentfulConfig, locale: string
   };
 
   try {
-    const response = await fetchWithTimeout(url, options, API_TIMEOUT);
-
-    if (!response.ok) {
+    const pages = await fetchEntryPages(url, options, response => {
       if (response.status === 401 || response.status === 403) {
-        throw new Error('Invalid API credentials');
+        return new Error('Invalid API credentials');
       }
       if (response.status === 404) {
-        throw new Error('Content type not found');
+        return new Error('Content type not found');
       }
-      throw new Error('Failed to fetch translations');
-    }
-
-    const data = await response.json();
+      return new Error('Failed to fetch translations');
+    });
 
-    if (!data.items || !Array.isArray(data.items)) {
+    if (pages.some(page => !page.items || !Array.isArray(page.items))) {
       throw new Error('Invalid response format');
     }
 
-    return data.items
+    return pages
+      .reduce<ContentfulTranslationItem[]>((items, page) => items.concat(page.items || []), [])
       .map((item: ContentfulTranslationItem) => {
         const fields = (item && typeof item.fields === 'object') ? item.fields : {};
+        const value = [locale.trim(), ...fallbacks]
+          .map(code => readLocalizedField(fields[config.VALUE_FIELD], code, false))
+          .find(text => text !== '');
         return {
-          key: (typeof fields[config.KEY_FIELD] === 'string') ? fields[config.KEY_FIELD] : '',
-          value: (typeof fields[config.VALUE_FIELD] === 'string') ? fields[config.VALUE_FIELD] : ''
+          key: readLocalizedField(fields[config.KEY_FIELD], locales.default, true),
+          value: value || ''
         };
       })
       .filter((t: Translation) => t.key.trim() !== '' && t.value.trim() !== '');
@@ -135,7 +251,7 @@ export async function fetchContentTypes(config: ContentfulConfig): Promise<unkno
   };
 
   try {
-    const response = await fetchWithTimeout(url, options, API_TIMEOUT);
+    const response = await fetchWithRetry(url, options, API_TIMEOUT);
 
     if (!response.ok) {
       if (response.status === 401 || response.status === 403) {
@@ -166,9 +282,14 @@ export async function fetchContentTypes(config: ContentfulConfig): Promise<unkno
  * Fetch records/entries for a specific content type
  * @param config - Contentful configuration
  * @param contentType - Content type ID to fetch records for
+ * @param signal - Optional signal that cancels the request
  * @returns Array of record objects
  */
-export async function fetchRecords(config: ContentfulConfig, contentType: string): Promise<unknown[]> {
+export async function fetchRecords(
+  config: ContentfulConfig,
+  contentType: string,
+  signal?: AbortSignalLike
+): Promise<unknown[]> {
   const spaceId = encodeURIComponent(config.SPACE_ID);
   const environment = encodeURIComponent(config.ENVIRONMENT);
   const contentTypeParam = encodeURIComponent(contentType);
@@ -177,11 +298,12 @@ export async function fetchRecords(config: ContentfulConfig, contentType: string
   const options = {
     headers: {
       'Authorization': `Bearer ${config.CMA_TOKEN}`
-    }
+    },
+    signal
   };
 
   try {
-    const response = await fetchWithTimeout(url, options, API_TIMEOUT);
+    const response = await fetchWithRetry(url, options, API_TIMEOUT);
 
     if (!response.ok) {
       if (response.status === 401 || response.status === 403) {
@@ -225,7 +347,7 @@ export async function validateContentType(config: ContentfulConfig): Promise<{ s
   };
 
   try {
-    const response = await fetchWithTimeout(url, options, API_TIMEOUT);
+    const response = await fetchWithRetry(url, options, API_TIMEOUT);
 
     if (!response.ok) {
       if (response.status === 404) {
@@ -254,63 +376,91 @@ export async function validateContentType(config: ContentfulConfig): Promise<{ s
   }
 }
 
+/**
+ * Fetch every page of an entries query
+ * Contentful returns at most ENTRIES_PAGE_LIMIT entries per request; the first page
+ * tells the total, the remaining pages are then requested together
+ * @param url - Entries URL with its query, without limit or skip
+ * @param options - Request headers and optional signal
+ * @param describeFailure - Builds the error for an unsuccessful first page
+ * @param skipFailedPages - Count a later page that fails as empty instead of failing the load
+ * @returns Response bodies of all pages, in order
+ */
+async function fetchEntryPages(
+  url: string,
+  options: FetchOptions,
+  describeFailure: (response: FetchResponse) => Error,
+  skipFailedPages = false
+): Promise<ContentfulEntriesPage[]> {
+  const signal = options.signal;
+
+  const firstResponse = await fetchWithRetry(`${url}&limit=${ENTRIES_PAGE_LIMIT}`, options, API_TIMEOUT);
+  if (!firstResponse.ok) {
+    throw describeFailure(firstResponse);
+  }
+
+  const firstData: ContentfulEntriesPage = await firstResponse.json();
+  const total = firstData.total || 0;
+  const pageRequests: Array<Promise<ContentfulEntriesPage>> = [];
+
+  for (let skip = ENTRIES_PAGE_LIMIT; skip < total; skip += ENTRIES_PAGE_LIMIT) {
+    const page = skip / ENTRIES_PAGE_LIMIT;
+    pageRequests.push(
+      fetchWithRetry(`${url}&limit=${ENTRIES_PAGE_LIMIT}&skip=${skip}`, options, API_TIMEOUT)
+        .then(response => {
+          if (!response.ok) {
+            throw describeFailure(response);
+          }
+          return response.json();
+        })
+        .catch(err => {
+          // A cancelled load must fail as a whole rather than return partial data
+          if (!skipFailedPages || (signal && signal.aborted)) {
+            throw err;
+          }
+          console.error(`Failed to fetch page ${page}:`, err);
+          return { items: [] };
+        })
+    );
+  }
+
+  return [firstData, ...await Promise.all(pageRequests)];
+}
+
 /**
  * Fetch all Contentful items with pagination support
  * @param config - Contentful configuration
- * @returns Object mapping keys to values and entry IDs
+ * @param locales - Locales to read keys (default) and values (target) in
+ * @param signal - Optional signal that cancels every page request
+ * @returns Object mapping keys to values, entry IDs, versions and publish state
  */
-export async function fetchAllContentfulItems(config: ContentfulConfig): Promise<Record<string, { value: string; id: string }>> {
+export async function fetchAllContentfulItems(
+  config: ContentfulConfig,
+  locales: LocaleContext = configuredLocaleContext(config),
+  signal?: AbortSignalLike
+): Promise<Record<string, ContentfulItem>> {
   const spaceId = encodeURIComponent(config.SPACE_ID);
   const environment = encodeURIComponent(config.ENVIRONMENT);
   const contentType = encodeURIComponent(config.CONTENT_TYPE);
 
-  const limit = 1000; // Contentful max per request
-
+  const url = `https://api.contentful.com/spaces/${spaceId}/environments/${environment}/entries?content_type=${contentType}`;
   const options = {
     headers: {
       'Authorization': `Bearer ${config.CMA_TOKEN}`
-    }
+    },
+    signal
   };
 
   try {
-    // Fetch first page to get total count
-    const firstUrl = `https://api.contentful.com/spaces/${spaceId}/environments/${environment}/entries?content_type=${contentType}&limit=${limit}`;
-    const firstResponse = await fetchWithTimeout(firstUrl, options, API_TIMEOUT);
-
-    if (!firstResponse.ok) {
-      throw new Error(`HTTP ${firstResponse.status}: ${firstResponse.statusText}`);
-    }
-
-    const firstData = await firstResponse.json();
-    const total = firstData.total || 0;
-
-    const allPages = [firstData];
-
-    // Fetch remaining pages if needed
-    if (total > limit) {
-      const remainingPages = Math.ceil((total - limit) / limit);
-      const pageRequests = [];
-
-      for (let page = 1; page <= remainingPages; page++) {
-        const skip = page * limit;
-        const pageUrl = `https://api.contentful.com/spaces/${spaceId}/environments/${environment}/entries?content_type=${contentType}&limit=${limit}&skip=${skip}`;
-
-        pageRequests.push(
-          fetchWithTimeout(pageUrl, options, API_TIMEOUT)
-            .then(r => r.json())
-            .catch(err => {
-              console.error(`Failed to fetch page ${page}:`, err);
-              return { items: [] };
-            })
-        );
-      }
-
-      const remainingData = await Promise.all(pageRequests);
-      allPages.push(...remainingData);
-    }
+    const allPages = await fetchEntryPages(
+      url,
+      options,
+      response => new Error(`HTTP ${response.status}: ${response.statusText}`),
+      true
+    );
 
     // Process all items from all pages
-    const items: Record<string, { value: string; id: string }> = {};
+    const items: Record<string, ContentfulItem> = {};
 
     for (const pageData of allPages) {
       if (pageData.items && Array.isArray(pageData.items)) {
@@ -322,25 +472,17 @@ export async function fetchAllContentfulItems(config: ContentfulConfig): Promise
 
           const fields = item.fields || {};
 
-          // Simple locale extraction
-          const keyField = fields[config.KEY_FIELD];
-          const valueField = fields[config.VALUE_FIELD];
-
-          let key: string | null = null;
-          let value: string | null = null;
-
-          if (keyField && typeof keyField === 'object') {
-            key = keyField['en-US'] || keyField[Object.keys(keyField)[0]];
-          }
+          // Keys live in the default locale; values are read in the target locale only,
+          // so an untranslated entry shows up empty instead of as another locale's text
+          const key = readLocalizedField(fields[config.KEY_FIELD], locales.default, true);
+          const value = readLocalizedField(fields[config.VALUE_FIELD], locales.target, false);
 
-          if (valueField && typeof valueField === 'object') {
-            value = valueField['en-US'] || valueField[Object.keys(valueField)[0]];
-          }
-
-          if (key && value) {
+          if (key) {
             items[key] = {
               value: value,
-              id: item.sys.id
+              id: item.sys.id,
+              version: typeof item.sys.version === 'number' ? item.sys.version : 0,
+              status: getPublishStatus(item.sys)
             };
           }
         }
@@ -360,9 +502,16 @@ export async function fetchAllContentfulItems(config: ContentfulConfig): Promise
  * Save an item to Contentful (create or update)
  * @param config - Contentful configuration
  * @param item - Item to save with key, value, and optional update info
+ * @param locales - Locales to write the key (default) and value (target) in
+ * @param signal - Optional signal that cancels the requests
  * @returns Result object with success status and any errors
  */
-export async function saveItemToContentful(config: ContentfulConfig, item: ContentfulSaveItem): Promise<ContentfulSaveResult> {
+export async function saveItemToContentful(
+  config: ContentfulConfig,
+  item: ContentfulSaveItem,
+  locales: LocaleContext = configuredLocaleContext(config),
+  signal?: AbortSignalLike
+): Promise<ContentfulSaveResult> {
   const spaceId = encodeURIComponent(config.SPACE_ID);
   const environment = encodeURIComponent(config.ENVIRONMENT);
   const contentType = config.CONTENT_TYPE;
@@ -372,11 +521,12 @@ export async function saveItemToContentful(config: ContentfulConfig, item: Conte
       // Update existing entry
       const url = `https://api.contentful.com/spaces/${spaceId}/environments/${environment}/entries/${item.entryId}`;
 
-      // First, get the current entry to get the version
-      const getResponse = await fetchWithTimeout(url, {
+      // First, get the current entry to get the version and its existing fields
+      const getResponse = await fetchWithRetry(url, {
         headers: {
           'Authorization': `Bearer ${config.CMA_TOKEN}`
-        }
+        },
+        signal
       }, API_TIMEOUT);
 
       if (!getResponse.ok) {
@@ -385,46 +535,75 @@ export async function saveItemToContentful(config: ContentfulConfig, item: Conte
         return {
           success: false,
           error: `Could not fetch entry (${getResponse.status})`,
-          errorDetails: { status: getResponse.status, response: errorText, operation: 'fetch', entryId: item.entryId }
+          errorDetails: { status: getResponse.status, response: errorText, operation: 'fetch', entryId: item.entryId, retries: getRetryAttempts(getResponse) }
         };
       }
 
       const currentEntry = await getResponse.json();
       const version = currentEntry.sys.version;
 
+      // Someone edited the entry since the value was loaded - don't overwrite it unseen
+      if (item.version !== undefined && version !== item.version) {
+        return {
+          success: false,
+          error: `Entry changed in Contentful since it was loaded (version ${version}, expected ${item.version})`,
+          conflict: readConflict(currentEntry, config, locales),
+          errorDetails: { operation: 'update', entryId: item.entryId, version, expectedVersion: item.version }
+        };
+      }
+
+      // PUT replaces the whole entry, so merge into the current fields and only
+      // change the target locale of the value field
+      const currentFields: Record<string, Record<string, unknown>> = currentEntry.fields || {};
+      const fields = {
+        ...currentFields,
+        [config.VALUE_FIELD]: {
+          ...(currentFields[config.VALUE_FIELD] || {}),
+          [locales.target]: item.value
+        }
+      };
+
       // Update the entry
-      const updateResponse = await fetchWithTimeout(url, {
+      const updateResponse = await fetchWithRetry(url, {
         method: 'PUT',
         headers: {
           'Authorization': `Bearer ${config.CMA_TOKEN}`,
           'Content-Type': 'application/vnd.contentful.management.v1+json',
           'X-Contentful-Version': version.toString()
         },
-        body: JSON.stringify({
-          fields: {
-            [config.KEY_FIELD]: { 'en-US': item.key },
-            [config.VALUE_FIELD]: { 'en-US': item.value }
-          }
-        })
+        body: JSON.stringify({ fields }),
+        signal
       }, API_TIMEOUT);
 
       if (!updateResponse.ok) {
         const errorText = await updateResponse.text();
         console.error('[Contentful] Update failed:', errorText);
+
+        // The entry moved on between the read and the write
+        if (updateResponse.status === 409) {
+          return {
+            success: false,
+            error: 'Update failed (409): entry changed in Contentful while saving',
+            conflict: await fetchConflict(url, config, locales, signal),
+            errorDetails: { status: 409, response: errorText, operation: 'update', entryId: item.entryId, version, retries: getRetryAttempts(updateResponse) }
+          };
+        }
+
         return {
           success: false,
           error: `Update failed (${updateResponse.status})`,
-          errorDetails: { status: updateResponse.status, response: errorText, operation: 'update', entryId: item.entryId, version }
+          errorDetails: { status: updateResponse.status, response: errorText, operation: 'update', entryId: item.entryId, version, retries: getRetryAttempts(updateResponse) }
         };
       }
 
       // Entry saved as draft - publishing happens in Contentful
-      return { success: true };
+      const saved = await readSavedEntry(updateResponse);
+      return { success: true, entryId: item.entryId, version: saved.version };
     } else {
       // Create new entry
       const url = `https://api.contentful.com/spaces/${spaceId}/environments/${environment}/entries`;
 
-      const createResponse = await fetchWithTimeout(url, {
+      const createResponse = await fetchWithRetry(url, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${config.CMA_TOKEN}`,
@@ -433,10 +612,11 @@ export async function saveItemToContentful(config: ContentfulConfig, item: Conte
         },
         body: JSON.stringify({
           fields: {
-            [config.KEY_FIELD]: { 'en-US': item.key },
-            [config.VALUE_FIELD]: { 'en-US': item.value }
+            [config.KEY_FIELD]: { [locales.default]: item.key },
+            [config.VALUE_FIELD]: { [locales.target]: item.value }
           }
-        })
+        }),
+        signal
       }, API_TIMEOUT);
 
       if (!createResponse.ok) {
@@ -445,12 +625,13 @@ export async function saveItemToContentful(config: ContentfulConfig, item: Conte
         return {
           success: false,
           error: `Create failed (${createResponse.status})`,
-          errorDetails: { status: createResponse.status, response: errorText, operation: 'create', key: item.key }
+          errorDetails: { status: createResponse.status, response: errorText, operation: 'create', key: item.key, retries: getRetryAttempts(createResponse) }
         };
       }
 
       // Entry created as draft - publishing happens in Contentful
-      return { success: true };
+      const saved = await readSavedEntry(createResponse);
+      return { success: true, entryId: saved.id, version: saved.version };
     }
   } catch (error) {
     console.error('[Contentful] Exception:', error);
@@ -458,7 +639,7 @@ export async function saveItemToContentful(config: ContentfulConfig, item: Conte
       return {
         success: false,
         error: error.message,
-        errorDetails: { exception: error.name, stack: error.stack, operation: item.isUpdate ? 'update' : 'create' }
+        errorDetails: { exception: error.name, stack: error.stack, operation: item.isUpdate ? 'update' : 'create', retries: getRetryAttempts(error) }
       };
     }
     return {
@@ -468,3 +649,248 @@ export async function saveItemToContentful(config: ContentfulConfig, item: Conte
     };
   }
 }
+
+/**
+ * Describe an entry's current state for a save conflict
+ * @param entry - Entry as returned by the Management API
+ * @param config - Contentful configuration with VALUE_FIELD
+ * @param locales - Locales the value was saved in
+ * @returns Current version and target-locale value
+ */
+function readConflict(
+  entry: { sys?: { version?: number }; fields?: Record<string, Record<string, unknown>> },
+  config: ContentfulConfig,
+  locales: LocaleContext
+): ContentfulSaveConflict {
+  const valueField = entry.fields ? entry.fields[config.VALUE_FIELD] : undefined;
+  const value = valueField ? valueField[locales.target] : undefined;
+  return {
+    version: entry.sys && typeof entry.sys.version === 'number' ? entry.sys.version : 0,
+    value: typeof value === 'string' ? value : ''
+  };
+}
+
+/**
+ * Re-read an entry after a version conflict
+ * @param url - Entry URL
+ * @param config - Contentful configuration
+ * @param locales - Locales the value was saved in
+ * @param signal - Optional signal that cancels the request
+ * @returns Current version and value, or undefined if the entry can't be read
+ */
+async function fetchConflict(
+  url: string,
+  config: ContentfulConfig,
+  locales: LocaleContext,
+  signal?: AbortSignalLike
+): Promise<ContentfulSaveConflict | undefined> {
+  try {
+    const response = await fetchWithRetry(url, {
+      headers: {
+        'Authorization': `Bearer ${config.CMA_TOKEN}`
+      },
+      signal
+    }, API_TIMEOUT);
+    return response.ok ? readConflict(await response.json(), config, locales) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the entry ID and version from a create or update response
+ * @param response - Successful save response
+ * @returns The saved entry's ID and version; fields are undefined if the body can't be read
+ */
+async function readSavedEntry(response: FetchResponse): Promise<{ id?: string; version?: number }> {
+  try {
+    const entry = await response.json();
+    const sys = entry && entry.sys ? entry.sys : {};
+    return {
+      id: typeof sys.id === 'string' ? sys.id : undefined,
+      version: typeof sys.version === 'number' ? sys.version : undefined
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Save several items to Contentful with bounded concurrency
+ * Items are picked up in order; aborting the signal stops new items from starting
+ * and aborts the requests in flight, whose items are reported as cancelled
+ * @param config - Contentful configuration
+ * @param items - Items to save
+ * @param locales - Locales to write the key (default) and value (target) in
+ * @param options - Concurrency, progress callback and cancellation signal
+ * @returns Summary of created, updated, failed and cancelled keys
+ */
+export async function saveItemsToContentful(
+  config: ContentfulConfig,
+  items: ContentfulSaveItem[],
+  locales: LocaleContext = configuredLocaleContext(config),
+  options: ContentfulBatchSaveOptions = {}
+): Promise<ContentfulBatchSaveResult> {
+  const summary: ContentfulBatchSaveResult = { created: [], updated: [], failed: [], cancelled: [] };
+  const concurrency = Math.max(1, options.concurrency || SAVE_CONCURRENCY);
+
+  const signal = options.signal;
+  const interrupted: string[] = [];
+
+  let nextIndex = 0;
+  let completed = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      if (signal && signal.aborted) {
+        return;
+      }
+
+      const item = items[nextIndex++];
+      const result = await saveItemToContentful(config, item, locales, signal);
+
+      if (!result.success && signal && signal.aborted) {
+        interrupted.push(item.key);
+        return;
+      }
+      completed++;
+
+      if (result.success) {
+        if (item.isUpdate && item.entryId) {
+          summary.updated.push(item.key);
+        } else {
+          summary.created.push(item.key);
+        }
+      } else {
+        summary.failed.push({ key: item.key, error: result.error, errorDetails: result.errorDetails, conflict: result.conflict });
+      }
+
+      if (options.onProgress) {
+        options.onProgress({ key: item.key, completed, total: items.length, result });
+      }
+    }
+  };
+
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < Math.min(concurrency, items.length); i++) {
+    workers.push(worker());
+  }
+  await Promise.all(workers);
+
+  summary.cancelled = interrupted.concat(items.slice(nextIndex).map(item => item.key));
+  return summary;
+}
+
+/**
+ * Publish or unpublish a single entry
+ * @param config - Contentful configuration
+ * @param entryId - Entry to change
+ * @param publish - True to publish the latest version, false to unpublish
+ * @returns Result object with success status and any errors
+ */
+async function setEntryPublished(config: ContentfulConfig, entryId: string, publish: boolean): Promise<ContentfulPublishResult> {
+  const spaceId = encodeURIComponent(config.SPACE_ID);
+  const environment = encodeURIComponent(config.ENVIRONMENT);
+  const entryUrl = `https://api.contentful.com/spaces/${spaceId}/environments/${environment}/entries/${encodeURIComponent(entryId)}`;
+  const operation = publish ? 'publish' : 'unpublish';
+
+  try {
+    const headers: Record<string, string> = {
+      'Authorization': `Bearer ${config.CMA_TOKEN}`
+    };
+
+    if (publish) {
+      // Publishing requires the current version of the entry
+      const getResponse = await fetchWithRetry(entryUrl, { headers: { ...headers } }, API_TIMEOUT);
+
+      if (!getResponse.ok) {
+        const errorText = await getResponse.text();
+        console.error('[Contentful] Failed to fetch entry for publish:', errorText);
+        return {
+          success: false,
+          entryId,
+          error: `Could not fetch entry (${getResponse.status})`,
+          errorDetails: { status: getResponse.status, response: errorText, operation: 'fetch', entryId, retries: getRetryAttempts(getResponse) }
+        };
+      }
+
+      const currentEntry = await getResponse.json();
+      headers['X-Contentful-Version'] = String(currentEntry.sys.version);
+    }
+
+    const response = await fetchWithRetry(`${entryUrl}/published`, {
+      method: publish ? 'PUT' : 'DELETE',
+      headers
+    }, API_TIMEOUT);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[Contentful] ${publish ? 'Publish' : 'Unpublish'} failed:`, errorText);
+      return {
+        success: false,
+        entryId,
+        error: `${publish ? 'Publish' : 'Unpublish'} failed (${response.status})`,
+        errorDetails: { status: response.status, response: errorText, operation, entryId, retries: getRetryAttempts(response) }
+      };
+    }
+
+    return { success: true, entryId };
+  } catch (error) {
+    console.error('[Contentful] Exception:', error);
+    if (error instanceof Error) {
+      return {
+        success: false,
+        entryId,
+        error: error.message,
+        errorDetails: { exception: error.name, stack: error.stack, operation, entryId, retries: getRetryAttempts(error) }
+      };
+    }
+    return {
+      success: false,
+      entryId,
+      error: 'Unknown error occurred',
+      errorDetails: { exception: String(error), operation, entryId }
+    };
+  }
+}
+
+/**
+ * Publish the latest version of an entry
+ * @param config - Contentful configuration
+ * @param entryId - Entry to publish
+ * @returns Result object with success status and any errors
+ */
+export async function publishEntry(config: ContentfulConfig, entryId: string): Promise<ContentfulPublishResult> {
+  return setEntryPublished(config, entryId, true);
+}
+
+/**
+ * Unpublish an entry, turning it back into a draft
+ * @param config - Contentful configuration
+ * @param entryId - Entry to unpublish
+ * @returns Result object with success status and any errors
+ */
+export async function unpublishEntry(config: ContentfulConfig, entryId: string): Promise<ContentfulPublishResult> {
+  return setEntryPublished(config, entryId, false);
+}
+
+/**
+ * Publish or unpublish several entries one after another
+ * @param config - Contentful configuration
+ * @param entryIds - Entries to change
+ * @param publish - True to publish, false to unpublish
+ * @returns One result per entry, in input order
+ */
+export async function setEntriesPublished(
+  config: ContentfulConfig,
+  entryIds: string[],
+  publish: boolean
+): Promise<ContentfulPublishResult[]> {
+  const results: ContentfulPublishResult[] = [];
+
+  for (const entryId of entryIds) {
+    results.push(await setEntryPublished(config, entryId, publish));
+  }
+
+  return results;
+}
@@ -3,3 +3,7 @@ export * from './network.service';
 export * from './config.service';
 export * from './contentful.service';
 export * from './node.service';
+export * from './operation.service';
+export * from './variable.service';
+export * from './key.service';
+export * from './lint.service';
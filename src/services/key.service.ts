@@ -0,0 +1,326 @@
+import { ContentfulConfig, KeyCase } from '../types/config.types';
+import { ContentfulItem, ReuseSuggestion } from '../types/contentful.types';
+import { UntaggedNodeInfo, KeyProposal, KeyGenerationResult, TextNodeInfo, TextMatch } from '../types/figma.types';
+import {
+  DEFAULT_KEY_TEMPLATE,
+  DEFAULT_KEY_CASE,
+  KEY_CASES,
+  REUSE_SIMILARITY_THRESHOLD,
+  MAX_REUSE_SUGGESTIONS
+} from '../constants';
+import { getKeyFromName } from './node.service';
+
+// Words of a node's text used by the {text} token
+const TEXT_TOKEN_WORDS = 4;
+
+// Order of reuse suggestions, closest kind of match first
+const REUSE_MATCH_ORDER: ReuseSuggestion['match'][] = ['exact', 'normalized', 'similar'];
+
+// Separator before the number that makes a taken key unique
+const SUFFIX_SEPARATORS: Record<KeyCase, string> = {
+  snake: '_',
+  camel: '',
+  kebab: '-',
+  pascal: ''
+};
+
+/**
+ * Read the configured key casing
+ * @param config - Contentful configuration with KEY_CASE
+ * @returns The casing, or the default if none or an unknown one is set
+ */
+function getKeyCase(config: ContentfulConfig): KeyCase {
+  return KEY_CASES.find(keyCase => keyCase === config.KEY_CASE) || DEFAULT_KEY_CASE;
+}
+
+/**
+ * Split a layer name or text into lowercase ASCII words
+ * @param text - Text to split
+ * @returns Words, without accents, punctuation or camel-case humps
+ */
+function toWords(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.toLowerCase());
+}
+
+/**
+ * Write text in a key casing
+ * @param text - Layer name or text
+ * @param keyCase - Casing to apply
+ * @returns Cased text, empty if it has no letters or digits
+ */
+export function applyKeyCase(text: string, keyCase: KeyCase = DEFAULT_KEY_CASE): string {
+  const words = toWords(text);
+  const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+  switch (keyCase) {
+    case 'camel':
+      return words.map((word, i) => (i === 0 ? word : capitalize(word))).join('');
+    case 'pascal':
+      return words.map(capitalize).join('');
+    case 'kebab':
+      return words.join('-');
+    case 'snake':
+      return words.join('_');
+  }
+}
+
+/**
+ * Fill the key template for a node
+ * Tokens without a value (e.g. no section) are dropped along with their separator
+ * @param node - Untagged node with its surrounding layers
+ * @param config - Contentful configuration with KEY_TEMPLATE and KEY_CASE
+ * @returns Layer name for the node
+ */
+export function renderKeyTemplate(node: UntaggedNodeInfo, config: ContentfulConfig): string {
+  const keyCase = getKeyCase(config);
+  const values: Record<string, string | undefined> = {
+    page: node.pageName,
+    section: node.sectionName,
+    frame: node.frameName,
+    parent: node.parentName,
+    layer: node.name,
+    text: toWords(node.characters).slice(0, TEXT_TOKEN_WORDS).join(' ')
+  };
+
+  return (config.KEY_TEMPLATE || DEFAULT_KEY_TEMPLATE)
+    .replace(/\{(\w+)\}/g, (_, token: string) => applyKeyCase(values[token] || '', keyCase))
+    .replace(/([._\-/])[._\-/]+/g, '$1')
+    .replace(/^[._\-/]+|[._\-/]+$/g, '');
+}
+
+/**
+ * Normalize text for comparison, the same way the UI compares Figma and Contentful values
+ * @param text - Text to normalize
+ * @returns Trimmed text with collapsed whitespace, no zero-width characters, in NFC
+ */
+export function normalizeText(text: string): string {
+  if (!text) return '';
+  return text
+    .trim()
+    .replace(/\s+/g, ' ')
+    .replace(/\u00A0/g, ' ')
+    .replace(/[\u200B-\u200D\uFEFF]/g, '')
+    .normalize('NFC');
+}
+
+/**
+ * Check whether two texts say the same thing
+ * @param a - First text
+ * @param b - Second text
+ * @returns True if the normalized texts are equal
+ */
+function isSameText(a: string, b: string): boolean {
+  return normalizeText(a) === normalizeText(b);
+}
+
+/**
+ * Propose keys for untagged nodes
+ * A key already used for the same text is shared; a key used for different text -
+ * in Contentful, by a tagged node or by an earlier proposal - gets a number suffix
+ * @param nodes - Untagged nodes, as listed by getUntaggedNodes
+ * @param config - Contentful configuration with NODE_NAME_PATTERN, KEY_TEMPLATE and KEY_CASE
+ * @param contentfulItems - Existing Contentful items by key
+ * @param documentKeys - Text of the keys tagged nodes already use
+ * @returns Proposals, and the nodes whose generated name doesn't yield a key
+ */
+export function generateKeyProposals(
+  nodes: UntaggedNodeInfo[],
+  config: ContentfulConfig,
+  contentfulItems: Record<string, ContentfulItem>,
+  documentKeys: Map<string, string> = new Map()
+): KeyGenerationResult {
+  const pattern = new RegExp(config.NODE_NAME_PATTERN);
+  const separator = SUFFIX_SEPARATORS[getKeyCase(config)];
+  const proposedKeys = new Map<string, string>();
+  const result: KeyGenerationResult = { proposals: [], skipped: [] };
+
+  const findCollision = (key: string, text: string): KeyProposal['collision'] => {
+    const item = contentfulItems[key];
+    if (item && !isSameText(item.value, text)) return 'contentful';
+    const documentText = documentKeys.get(key);
+    if (documentText !== undefined && !isSameText(documentText, text)) return 'document';
+    const proposedText = proposedKeys.get(key);
+    if (proposedText !== undefined && !isSameText(proposedText, text)) return 'proposal';
+    return undefined;
+  };
+
+  for (const node of nodes) {
+    const baseName = renderKeyTemplate(node, config);
+    let name = baseName;
+    let key = getKeyFromName(name, pattern);
+    if (!baseName || key === null) {
+      result.skipped.push(`${node.name}: "${baseName}" doesn't match NODE_NAME_PATTERN`);
+      continue;
+    }
+
+    const collision = findCollision(key, node.characters);
+    let taken = collision;
+    for (let n = 2; taken && key !== null; n++) {
+      const previousKey: string = key;
+      name = `${baseName}${separator}${n}`;
+      key = getKeyFromName(name, pattern);
+      // A suffix outside the pattern's key group can't make the key unique
+      if (key === previousKey) {
+        key = null;
+      }
+      taken = key !== null ? findCollision(key, node.characters) : undefined;
+    }
+    if (key === null) {
+      result.skipped.push(`${node.name}: No unique key could be generated from "${baseName}"`);
+      continue;
+    }
+
+    proposedKeys.set(key, node.characters);
+    result.proposals.push({
+      nodeId: node.id,
+      nodeName: node.name,
+      characters: node.characters,
+      pageName: node.pageName,
+      name,
+      key,
+      collision,
+      existing: !!contentfulItems[key] || undefined
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Find a layer name that resolves to a key
+ * Tries the key itself, then the key after the literal start of NODE_NAME_PATTERN
+ * @param key - Key the layer should carry
+ * @param config - Contentful configuration with NODE_NAME_PATTERN
+ * @returns Layer name, or undefined if the pattern can't produce the key
+ */
+export function getNameForKey(key: string, config: ContentfulConfig): string | undefined {
+  const pattern = new RegExp(config.NODE_NAME_PATTERN);
+  const prefixMatch = config.NODE_NAME_PATTERN.match(/^\^?([\w-]*)/);
+  const prefix = prefixMatch ? prefixMatch[1] : '';
+  return [key, `${prefix}${key}`].find(name => getKeyFromName(name, pattern) === key);
+}
+
+/**
+ * Match untagged nodes to Contentful entries that already hold their text
+ * When several entries share the text, the first key in alphabetical order is proposed
+ * @param nodes - Untagged nodes
+ * @param config - Contentful configuration with NODE_NAME_PATTERN
+ * @param contentfulItems - Existing Contentful items by key
+ * @returns One match per node whose text exists in Contentful
+ */
+export function findTextMatches(
+  nodes: TextNodeInfo[],
+  config: ContentfulConfig,
+  contentfulItems: Record<string, ContentfulItem>
+): TextMatch[] {
+  const keysByText = new Map<string, string[]>();
+  for (const key of Object.keys(contentfulItems).sort()) {
+    const text = normalizeText(contentfulItems[key].value);
+    if (text) {
+      keysByText.set(text, [...(keysByText.get(text) || []), key]);
+    }
+  }
+
+  const matches: TextMatch[] = [];
+  for (const node of nodes) {
+    const keys = keysByText.get(normalizeText(node.characters));
+    if (!keys) {
+      continue;
+    }
+    const [key, ...otherKeys] = keys;
+    matches.push({
+      nodeId: node.id,
+      nodeName: node.name,
+      characters: node.characters,
+      pageName: node.pageName,
+      key,
+      entryId: contentfulItems[key].id,
+      name: getNameForKey(key, config),
+      otherKeys: otherKeys.length > 0 ? otherKeys : undefined
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Compare two texts by edit distance, ignoring whitespace and case
+ * @param a - First text
+ * @param b - Second text
+ * @returns Similarity from 0 (nothing in common) to 1 (the same text)
+ */
+export function getTextSimilarity(a: string, b: string): number {
+  const left = normalizeText(a).toLowerCase();
+  const right = normalizeText(b).toLowerCase();
+  const longest = Math.max(left.length, right.length);
+  if (longest === 0) return 1;
+
+  // Levenshtein distance, one row at a time
+  let previous = Array.from({ length: right.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= left.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= right.length; j++) {
+      const substitution = previous[j - 1] + (left[i - 1] === right[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+
+  return 1 - previous[right.length] / longest;
+}
+
+/**
+ * Find existing entries that could be reused instead of creating one for a value
+ * @param value - Value about to be created
+ * @param config - Contentful configuration with NODE_NAME_PATTERN
+ * @param contentfulItems - Existing Contentful items by key
+ * @param excludeKey - Key being created, never suggested for itself
+ * @returns The closest entries - exact, then normalized, then similar matches
+ */
+export function findReuseSuggestions(
+  value: string,
+  config: ContentfulConfig,
+  contentfulItems: Record<string, ContentfulItem>,
+  excludeKey?: string
+): ReuseSuggestion[] {
+  const text = normalizeText(value);
+  if (!text) return [];
+
+  const suggestions: ReuseSuggestion[] = [];
+  for (const key of Object.keys(contentfulItems)) {
+    const item = contentfulItems[key];
+    const itemText = normalizeText(item.value);
+    if (key === excludeKey || !itemText) {
+      continue;
+    }
+
+    let match: ReuseSuggestion['match'] = 'similar';
+    let similarity = 1;
+    if (item.value === value) {
+      match = 'exact';
+    } else if (itemText.toLowerCase() === text.toLowerCase()) {
+      match = 'normalized';
+    } else {
+      // The length difference bounds the similarity, ruling out most values cheaply
+      const lengthRatio = Math.min(text.length, itemText.length) / Math.max(text.length, itemText.length);
+      if (lengthRatio < REUSE_SIMILARITY_THRESHOLD) continue;
+      similarity = getTextSimilarity(text, itemText);
+      if (similarity < REUSE_SIMILARITY_THRESHOLD) continue;
+    }
+
+    suggestions.push({ key, entryId: item.id, value: item.value, match, similarity, name: getNameForKey(key, config) });
+  }
+
+  return suggestions
+    .sort((a, b) =>
+      REUSE_MATCH_ORDER.indexOf(a.match) - REUSE_MATCH_ORDER.indexOf(b.match) ||
+      b.similarity - a.similarity ||
+      a.key.localeCompare(b.key))
+    .slice(0, MAX_REUSE_SUGGESTIONS);
+}
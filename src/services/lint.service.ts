@@ -0,0 +1,135 @@
+import { ContentfulConfig, KeyLintRule, LintSeverity } from '../types/config.types';
+import { TextNodeInfo, KeyLintIssue } from '../types/figma.types';
+import { DEFAULT_KEY_LINT_RULES, LINT_SEVERITIES, DEFAULT_KEY_MAX_LENGTH } from '../constants';
+import { normalizeText } from './key.service';
+
+// "copy" suffixes left by duplicating layers, e.g. "title copy", "title_copy2"
+const COPY_SUFFIX = /(?:\s+|[_-])copy(?:[\s_-]*\d+)?$/i;
+
+// Dot-separated namespaces, each with a name
+const NAMESPACED_KEY = /^[^.]+(\.[^.]+)+$/;
+
+/**
+ * Read the configured lint severities
+ * @param config - Contentful configuration with KEY_LINT_RULES
+ * @returns Severity of every rule, defaults for rules not configured
+ * @throws Error naming the unknown rule or severity
+ */
+export function parseKeyLintRules(config: ContentfulConfig): Record<KeyLintRule, LintSeverity> {
+  const rules: Record<KeyLintRule, LintSeverity> = { ...DEFAULT_KEY_LINT_RULES };
+  const ruleNames = Object.keys(DEFAULT_KEY_LINT_RULES) as KeyLintRule[];
+
+  for (const entry of (config.KEY_LINT_RULES || '').split(',')) {
+    if (!entry.trim()) {
+      continue;
+    }
+    const [name, severity] = entry.split(':').map(part => part.trim());
+    const rule = ruleNames.find(r => r === name);
+    if (!rule) {
+      throw new Error(`Unknown KEY_LINT_RULES rule "${name}" - use ${ruleNames.join(', ')}`);
+    }
+    const level = LINT_SEVERITIES.find(s => s === severity);
+    if (!level) {
+      throw new Error(`KEY_LINT_RULES severity of ${rule} must be one of ${LINT_SEVERITIES.join(', ')}`);
+    }
+    rules[rule] = level;
+  }
+
+  return rules;
+}
+
+/**
+ * Read the longest key the max-length rule allows
+ * @param config - Contentful configuration with KEY_MAX_LENGTH
+ * @returns Maximum key length
+ * @throws Error if KEY_MAX_LENGTH isn't a positive whole number
+ */
+export function getKeyMaxLength(config: ContentfulConfig): number {
+  if (!config.KEY_MAX_LENGTH || !config.KEY_MAX_LENGTH.trim()) {
+    return DEFAULT_KEY_MAX_LENGTH;
+  }
+  const maxLength = Number(config.KEY_MAX_LENGTH);
+  if (!Number.isInteger(maxLength) || maxLength <= 0) {
+    throw new Error('KEY_MAX_LENGTH must be a positive whole number');
+  }
+  return maxLength;
+}
+
+/**
+ * Check a key against the rules that only look at the key itself
+ * @param key - Key to check
+ * @param config - Contentful configuration with KEY_LINT_RULES and KEY_MAX_LENGTH
+ * @returns Broken rules, with a suggested key where one can be derived
+ */
+export function lintKey(key: string, config: ContentfulConfig): KeyLintIssue[] {
+  const rules = parseKeyLintRules(config);
+  const issues: KeyLintIssue[] = [];
+  const report = (rule: KeyLintRule, message: string, fix?: string) => {
+    const severity = rules[rule];
+    if (severity !== 'off') {
+      issues.push({ key, rule, severity, message, fix });
+    }
+  };
+
+  if (key !== key.toLowerCase()) {
+    report('lowercase', 'Key has uppercase letters', key.toLowerCase());
+  }
+
+  if (!NAMESPACED_KEY.test(key)) {
+    const dotted = key.replace(/[\s/]+/g, '.').replace(/\.{2,}/g, '.').replace(/^\.|\.$/g, '');
+    report('namespace', 'Key is not a dot-separated namespace, e.g. checkout.button', NAMESPACED_KEY.test(dotted) ? dotted : undefined);
+  }
+
+  const maxLength = getKeyMaxLength(config);
+  if (key.length > maxLength) {
+    report('max-length', `Key is ${key.length} characters - the limit is ${maxLength}`);
+  }
+
+  if (COPY_SUFFIX.test(key)) {
+    const trimmed = key.replace(COPY_SUFFIX, '');
+    report('copy-suffix', 'Key ends in a "copy" suffix from a duplicated layer', trimmed || undefined);
+  }
+
+  return issues;
+}
+
+/**
+ * Check the keys of translatable nodes
+ * Besides the key rules, flags a key whose nodes have different texts; instance
+ * overrides are left out, as they aren't pushed
+ * @param nodes - Translatable nodes, as listed by getTranslatableNodes
+ * @param config - Contentful configuration with KEY_LINT_RULES and KEY_MAX_LENGTH
+ * @returns Broken rules per node
+ */
+export function lintNodes(nodes: TextNodeInfo[], config: ContentfulConfig): KeyLintIssue[] {
+  const rules = parseKeyLintRules(config);
+  const byKey = new Map<string, TextNodeInfo[]>();
+  nodes.forEach(node => {
+    if (node.key !== undefined) {
+      byKey.set(node.key, [...(byKey.get(node.key) || []), node]);
+    }
+  });
+
+  const issues: KeyLintIssue[] = [];
+  byKey.forEach((keyNodes, key) => {
+    const keyIssues = lintKey(key, config);
+
+    const sourceNodes = keyNodes.filter(node => !(node.component && node.component.overridden));
+    const texts = new Set((sourceNodes.length > 0 ? sourceNodes : keyNodes).map(node => normalizeText(node.characters)));
+    const textConflict = rules['text-conflict'];
+    if (texts.size > 1 && textConflict !== 'off') {
+      keyIssues.push({
+        key,
+        rule: 'text-conflict',
+        severity: textConflict,
+        message: `Key is used with ${texts.size} different texts - give the layers one text or separate keys`
+      });
+    }
+
+    keyNodes.forEach(node => {
+      keyIssues.forEach(issue => issues.push({ ...issue, nodeId: node.id }));
+    });
+  });
+
+  return issues;
+}
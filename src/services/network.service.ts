@@ -1,14 +1,112 @@
-import { API_TIMEOUT } from '../constants';
-import { FetchOptions } from '../types';
+import { API_TIMEOUT, DEFAULT_RETRY_OPTIONS } from '../constants';
+import {
+  FetchOptions,
+  RetryOptions,
+  RetryAttempt,
+  AbortSignalLike,
+  AbortControllerLike
+} from '../types';
+
+// Methods that can be repeated without side effects beyond the first call
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'];
+
+/**
+ * Response headers as exposed by Figma's fetch (`headersObject`) or a standard one (`headers.get`)
+ */
+interface ResponseHeadersLike {
+  headersObject?: Record<string, string>;
+  headers?: { get(name: string): string | null };
+}
+
+/**
+ * Figma's fetch, which takes a signal although its typings leave it out
+ * (the Node typings used by the tests declare a different fetch again)
+ */
+type SignalFetch = (url: string, init?: FetchOptions) => Promise<FetchResponse>;
+
+/**
+ * Response from fetchWithRetry, with the retries it took
+ */
+type RetriedResponse = FetchResponse & { retryAttempts?: RetryAttempt[] };
+
+/**
+ * Get the platform AbortController constructor, if the runtime has one
+ * @returns AbortController constructor or undefined
+ */
+function getNativeAbortController(): (new () => AbortControllerLike) | undefined {
+  return (globalThis as { AbortController?: new () => AbortControllerLike }).AbortController;
+}
+
+/**
+ * Create an abort controller
+ * Uses the platform AbortController when available. Otherwise returns a minimal
+ * stand-in that still notifies listeners, so callers stop waiting even though
+ * the underlying request cannot be torn down
+ * @returns Abort controller
+ */
+export function createAbortController(): AbortControllerLike {
+  const NativeAbortController = getNativeAbortController();
+  if (NativeAbortController) {
+    return new NativeAbortController();
+  }
+
+  const listeners: Array<() => void> = [];
+  const signal = {
+    aborted: false,
+    addEventListener(_type: 'abort', listener: () => void): void {
+      listeners.push(listener);
+    },
+    removeEventListener(_type: 'abort', listener: () => void): void {
+      const index = listeners.indexOf(listener);
+      if (index !== -1) {
+        listeners.splice(index, 1);
+      }
+    }
+  };
+
+  return {
+    signal,
+    abort(): void {
+      if (signal.aborted) {
+        return;
+      }
+      signal.aborted = true;
+      listeners.slice().forEach(listener => listener());
+    }
+  };
+}
+
+/**
+ * Create the error thrown when a request is cancelled through its signal
+ * @returns Error named AbortError
+ */
+export function createAbortError(): Error {
+  const error = new Error('Request cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Check whether an error comes from a cancelled request
+ * @param error - Error to inspect
+ * @returns True if the request was aborted by its caller
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
 
 /**
  * Fetch with timeout wrapper
- * Wraps the native fetch API with a configurable timeout
+ * Wraps the native fetch API with a configurable timeout. Each request gets its
+ * own abort controller: the timeout aborts the underlying fetch, and so does
+ * aborting the caller's `options.signal`. Figma's sandbox has no AbortController,
+ * so there a timeout or cancel only stops the wait - a request already sent, a
+ * PUT included, may still be applied
  *
  * @param url - The URL to fetch
- * @param options - Fetch options (headers, method, etc.)
+ * @param options - Fetch options (headers, method, signal, etc.)
  * @param timeout - Timeout in milliseconds (defaults to API_TIMEOUT)
- * @returns Promise that resolves to the Response or rejects on timeout
+ * @returns Promise that resolves to the Response or rejects on timeout or abort
  */
 export async function fetchWithTimeout(
   url: string,
@@ -16,19 +114,229 @@ export async function fetchWithTimeout(
   timeout: number = API_TIMEOUT
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 ): Promise<any> {
+  const callerSignal = options && options.signal;
+  if (callerSignal && callerSignal.aborted) {
+    throw createAbortError();
+  }
+
+  const controller = createAbortController();
+
+  // Only a platform signal can be handed to fetch; the stand-in just stops the wait
+  const requestOptions: FetchOptions = { ...options };
+  delete requestOptions.signal;
+  if (getNativeAbortController()) {
+    requestOptions.signal = controller.signal;
+  }
+
   return new Promise((resolve, reject) => {
+    let settled = false;
+
+    const settle = (callback: () => void): void => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timeoutId);
+      if (callerSignal) {
+        callerSignal.removeEventListener('abort', onAbort);
+      }
+      callback();
+    };
+
+    const onAbort = (): void => {
+      settle(() => reject(createAbortError()));
+      controller.abort();
+    };
+
     const timeoutId = setTimeout(() => {
-      reject(new Error('Request timeout - please check your network connection'));
+      settle(() => reject(new Error('Request timeout - please check your network connection')));
+      controller.abort();
     }, timeout);
 
-    fetch(url, options)
-      .then(response => {
-        clearTimeout(timeoutId);
-        resolve(response);
-      })
-      .catch(error => {
-        clearTimeout(timeoutId);
-        reject(error);
-      });
+    if (callerSignal) {
+      callerSignal.addEventListener('abort', onAbort);
+    }
+
+    (fetch as unknown as SignalFetch)(url, requestOptions)
+      .then(response => settle(() => resolve(response)))
+      .catch(error => settle(() => reject(error)));
+  });
+}
+
+/**
+ * Wait for the given number of milliseconds
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional signal that ends the wait early with an AbortError
+ */
+function sleep(ms: number, signal?: AbortSignalLike): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal && signal.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timeoutId);
+      if (signal) {
+        signal.removeEventListener('abort', onAbort);
+      }
+      reject(createAbortError());
+    };
+    const timeoutId = setTimeout(() => {
+      if (signal) {
+        signal.removeEventListener('abort', onAbort);
+      }
+      resolve();
+    }, ms);
+
+    if (signal) {
+      signal.addEventListener('abort', onAbort);
+    }
   });
 }
+
+/**
+ * Read Contentful's rate limit reset header
+ * Figma's fetch exposes headers as a plain `headersObject`; standard responses use `headers.get`
+ * @param response - Response to inspect
+ * @returns Seconds until the rate limit resets, or null if absent
+ */
+function getRateLimitReset(response: ResponseHeadersLike | null): number | null {
+  if (!response) {
+    return null;
+  }
+
+  let header: string | null = null;
+  const headersObject = response.headersObject;
+  if (headersObject && typeof headersObject === 'object') {
+    const name = Object.keys(headersObject)
+      .find(k => k.toLowerCase() === 'x-contentful-ratelimit-reset');
+    header = name ? headersObject[name] : null;
+  } else if (response.headers && typeof response.headers.get === 'function') {
+    header = response.headers.get('X-Contentful-RateLimit-Reset');
+  }
+
+  const reset = header !== null ? parseFloat(header) : NaN;
+  return isNaN(reset) || reset < 0 ? null : reset;
+}
+
+/**
+ * Compute the backoff delay for a retry
+ * Exponential backoff with jitter: half the delay is fixed, the other half random
+ * @param attempt - Zero-based retry number
+ * @param options - Retry options with base and max delay
+ * @returns Delay in milliseconds
+ */
+function getBackoffDelay(attempt: number, options: Required<RetryOptions>): number {
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt));
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/**
+ * Check whether a request carries an entry version
+ * @param options - Fetch options
+ * @returns True if the X-Contentful-Version header is set
+ */
+function isVersionedRequest(options?: FetchOptions): boolean {
+  const headers = (options && options.headers) || {};
+  return Object.keys(headers).some(name => name.toLowerCase() === 'x-contentful-version');
+}
+
+/**
+ * Get the retry attempts recorded on a response or error from fetchWithRetry
+ * @param source - Response or error
+ * @returns Retry attempts, or undefined if none were made
+ */
+export function getRetryAttempts(source: unknown): RetryAttempt[] | undefined {
+  if (source && typeof source === 'object') {
+    const attempts = (source as { retryAttempts?: RetryAttempt[] }).retryAttempts;
+    if (Array.isArray(attempts) && attempts.length > 0) {
+      return attempts;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Fetch with timeout, retrying rate-limited and transient failures
+ * - 429 responses are retried for every method (Contentful rejects them before processing),
+ *   waiting for X-Contentful-RateLimit-Reset when present
+ * - 5xx responses, timeouts and network errors are only retried for idempotent methods. A PUT
+ *   carrying X-Contentful-Version is not: if the first attempt landed, a repeat fails with a
+ *   version conflict against the user's own edit
+ * - Aborting `options.signal` cancels the current attempt or wait and is never retried
+ * The attempts made are recorded as `retryAttempts` on the returned response or thrown error
+ *
+ * @param url - The URL to fetch
+ * @param options - Fetch options (headers, method, etc.)
+ * @param timeout - Timeout per attempt in milliseconds (defaults to API_TIMEOUT)
+ * @param retryOptions - Retry budget; callers use DEFAULT_RETRY_OPTIONS, tests shorten it
+ * @returns Promise that resolves to the final Response or rejects with the last error
+ */
+export async function fetchWithRetry(
+  url: string,
+  options?: FetchOptions,
+  timeout: number = API_TIMEOUT,
+  retryOptions: RetryOptions = {}
+): Promise<RetriedResponse> {
+  const budget: Required<RetryOptions> = { ...DEFAULT_RETRY_OPTIONS, ...retryOptions };
+  const method = ((options && options.method) || 'GET').toUpperCase();
+  const isIdempotent = IDEMPOTENT_METHODS.includes(method) && !(method === 'PUT' && isVersionedRequest(options));
+  const attempts: RetryAttempt[] = [];
+  const signal = options && options.signal;
+  let totalDelay = 0;
+
+  const withAttempts = (error: unknown): unknown => {
+    if (error instanceof Error) {
+      (error as Error & { retryAttempts?: RetryAttempt[] }).retryAttempts = attempts;
+    }
+    return error;
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    let response: RetriedResponse | null = null;
+    let failure: unknown = null;
+
+    try {
+      response = await fetchWithTimeout(url, options, timeout);
+    } catch (error) {
+      failure = error;
+    }
+
+    const status: number | undefined = response ? response.status : undefined;
+    const retryable = failure !== null
+      ? isIdempotent && !isAbortError(failure)
+      : status === 429 || (status !== undefined && status >= 500 && isIdempotent);
+
+    let delay = 0;
+    if (retryable) {
+      const reset = status === 429 ? getRateLimitReset(response) : null;
+      delay = reset !== null ? Math.ceil(reset * 1000) : getBackoffDelay(attempt, budget);
+    }
+
+    const canRetry = retryable && attempt < budget.maxRetries && totalDelay + delay <= budget.maxTotalDelayMs;
+
+    if (!canRetry) {
+      if (failure !== null) {
+        throw withAttempts(failure);
+      }
+      const result = response as RetriedResponse;
+      result.retryAttempts = attempts;
+      return result;
+    }
+
+    attempts.push({
+      attempt: attempt + 1,
+      status,
+      error: failure !== null ? (failure instanceof Error ? failure.message : String(failure)) : undefined,
+      delayMs: delay
+    });
+    totalDelay += delay;
+
+    try {
+      await sleep(delay, signal || undefined);
+    } catch (error) {
+      throw withAttempts(error);
+    }
+  }
+}
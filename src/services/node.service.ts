@@ -1,25 +1,573 @@
 import { ContentfulConfig } from '../types/config.types';
-import { Translation } from '../types/contentful.types';
-import { TextNodeInfo, FieldMapping } from '../types/figma.types';
+import { Translation, ContentfulItem } from '../types/contentful.types';
+import {
+  TextNodeInfo,
+  FieldMapping,
+  ApplyTranslationsResult,
+  NodeBinding,
+  NodeBindingResult,
+  ScanScope,
+  KeyUsage,
+  TextComponentContext,
+  PullChange,
+  PullApplyResult,
+  SyncBaseline,
+  UntaggedNodeInfo,
+  NodeRename,
+  TextOverflow
+} from '../types/figma.types';
+import {
+  NODE_BINDING_KEY,
+  NODE_BINDING_ENTRY_ID,
+  NODE_SYNC_VALUE,
+  NODE_SYNC_VERSION,
+  NODE_PREVIEW_LOCALE,
+  NODE_PREVIEW_VALUE,
+  NODE_KEY_GROUP,
+  DEFAULT_SCAN_SCOPE
+} from '../constants';
+
+// Error when a scope has nothing to translate
+const NO_NODES_MESSAGES: Record<ScanScope, string> = {
+  selection: 'No translatable text nodes found in the selection',
+  page: 'No translatable text nodes found on current page',
+  document: 'No translatable text nodes found in the document'
+};
+
+// Pixels of overflow ignored as rounding
+const OVERFLOW_TOLERANCE = 1;
 
 /**
- * Get count of text nodes matching the configured pattern
+ * A text node found by a scan, with the page it lives on
+ */
+interface ScannedTextNode {
+  node: TextNode;
+  page: PageNode;
+}
+
+/**
+ * Load the pages a scan needs
+ * With dynamic page loading other pages must be loaded before they can be searched
+ * @param scope - Scope about to be scanned
+ */
+export async function loadScope(scope: ScanScope = DEFAULT_SCAN_SCOPE): Promise<void> {
+  if (scope === 'document') {
+    await figma.loadAllPagesAsync();
+  }
+}
+
+/**
+ * Find the text nodes in a scope
+ * Pages outside the current one must be loaded first (see loadScope)
+ * @param scope - Selected layers, current page or all pages
+ * @returns Text nodes with their pages
+ */
+function findTextNodes(scope: ScanScope): ScannedTextNode[] {
+  if (scope === 'document') {
+    const found: ScannedTextNode[] = [];
+    for (const page of figma.root.children) {
+      const nodes = page.findAllWithCriteria({ types: ['TEXT'] }) as TextNode[];
+      nodes.forEach(node => found.push({ node, page }));
+    }
+    return found;
+  }
+
+  const page = figma.currentPage;
+
+  if (scope === 'selection') {
+    // Selected text layers plus the text inside selected frames and groups
+    const seen = new Set<string>();
+    const found: ScannedTextNode[] = [];
+    const add = (node: TextNode) => {
+      if (!seen.has(node.id)) {
+        seen.add(node.id);
+        found.push({ node, page });
+      }
+    };
+    for (const selected of page.selection) {
+      if (selected.type === 'TEXT') {
+        add(selected);
+      } else if ('findAllWithCriteria' in selected) {
+        (selected.findAllWithCriteria({ types: ['TEXT'] }) as TextNode[]).forEach(add);
+      }
+    }
+    return found;
+  }
+
+  const nodes = page.findAllWithCriteria({ types: ['TEXT'] }) as TextNode[];
+  return nodes.map(node => ({ node, page }));
+}
+
+/**
+ * Find the page a node lives on
+ * @param node - Node to look up
+ * @returns The containing page, or null for nodes outside any page
+ */
+function getContainingPage(node: BaseNode): PageNode | null {
+  let current: BaseNode | null = node;
+  while (current && current.type !== 'PAGE') {
+    current = current.parent;
+  }
+  return current as PageNode | null;
+}
+
+/**
+ * Find the top-level frame (or other layer directly on the page) containing a node
+ * @param node - Node to look up
+ * @returns The top-level ancestor, or null if the node is itself on the page
+ */
+function getTopLevelFrame(node: BaseNode): BaseNode | null {
+  let current: BaseNode = node;
+  while (current.parent && current.parent.type !== 'PAGE') {
+    current = current.parent;
+  }
+  return current === node ? null : current;
+}
+
+/**
+ * Find the nearest section containing a node
+ * @param node - Node to look up
+ * @returns The section, or null if the node isn't inside one
+ */
+function getContainingSection(node: BaseNode): BaseNode | null {
+  let current: BaseNode | null = node.parent;
+  while (current && current.type !== 'PAGE') {
+    if (current.type === 'SECTION') {
+      return current;
+    }
+    current = current.parent;
+  }
+  return null;
+}
+
+/**
+ * Find the outermost frame (or group) containing a node, looking inside sections
+ * @param node - Node to look up
+ * @returns The outermost ancestor that isn't a section, or null if there is none
+ */
+function getOutermostFrame(node: BaseNode): BaseNode | null {
+  let frame: BaseNode | null = null;
+  let current: BaseNode | null = node.parent;
+  while (current && current.type !== 'PAGE') {
+    if (current.type !== 'SECTION') {
+      frame = current;
+    }
+    current = current.parent;
+  }
+  return frame;
+}
+
+/**
+ * Find the component or instance that owns a text node
+ * A variant's properties are defined on its component set, so the set owns the text
+ * @param node - Text node to look up
+ * @returns The nearest instance or main component (set), or null for plain text
+ */
+function findComponentOwner(node: TextNode): ComponentNode | ComponentSetNode | InstanceNode | null {
+  let current = node.parent;
+  while (current && current.type !== 'PAGE') {
+    if (current.type === 'INSTANCE') {
+      return current;
+    }
+    if (current.type === 'COMPONENT') {
+      return current.parent && current.parent.type === 'COMPONENT_SET' ? current.parent : current;
+    }
+    current = current.parent;
+  }
+  return null;
+}
+
+/**
+ * Check whether a text node belongs to a main component (rather than an instance)
+ * Main components are written first, so instances that follow them need no override
+ * @param node - Text node to check
+ * @returns True for text inside a main component or component set
+ */
+function isInMainComponent(node: TextNode): boolean {
+  const owner = findComponentOwner(node);
+  return !!owner && owner.type !== 'INSTANCE';
+}
+
+/**
+ * Get the TEXT component property a text node is bound to
+ * @param node - Text node to check
+ * @returns The property name (with its ID suffix), or undefined
+ */
+function getTextPropertyName(node: TextNode): string | undefined {
+  const references = node.componentPropertyReferences;
+  return references ? references.characters : undefined;
+}
+
+/**
+ * Describe where a text node sits in a component
+ * @param node - Text node to describe
+ * @returns Component context, or undefined for text outside components
+ */
+function getComponentContext(node: TextNode): TextComponentContext | undefined {
+  const owner = findComponentOwner(node);
+  if (!owner) {
+    return undefined;
+  }
+
+  const isInstance = owner.type === 'INSTANCE';
+  return {
+    role: isInstance ? 'instance' : 'main',
+    ownerId: owner.id,
+    ownerName: owner.name,
+    propertyName: getTextPropertyName(node),
+    overridden: isInstance && owner.overrides.some(o => o.id === node.id && o.overriddenFields.includes('characters'))
+  };
+}
+
+/**
+ * Load every font used by a text node so its characters can be changed
+ * @param node - Text node about to be written
+ */
+async function loadNodeFonts(node: TextNode): Promise<void> {
+  const fontName = node.fontName;
+  if (fontName === figma.mixed) {
+    // Text has mixed fonts, load all ranges
+    for (let i = 0; i < node.characters.length; i++) {
+      const font = node.getRangeFontName(i, i + 1) as FontName;
+      await figma.loadFontAsync(font);
+    }
+  } else {
+    await figma.loadFontAsync(fontName as FontName);
+  }
+}
+
+/**
+ * Write text to a node, through its TEXT component property when it has one
+ * Main component text updates the property default so instances follow; instance
+ * text sets the instance's property. Unchanged text is left alone so instances
+ * that already show the text don't gain an override.
+ * @param node - Text node to write
+ * @param text - New text
+ */
+async function writeText(node: TextNode, text: string): Promise<void> {
+  if (node.characters === text) {
+    return;
+  }
+
+  await loadNodeFonts(node);
+
+  const owner = findComponentOwner(node);
+  const propertyName = getTextPropertyName(node);
+  if (owner && propertyName) {
+    if (owner.type === 'INSTANCE') {
+      owner.setProperties({ [propertyName]: text });
+    } else {
+      owner.editComponentProperty(propertyName, { defaultValue: text });
+    }
+    return;
+  }
+
+  node.characters = text;
+}
+
+/**
+ * Measure the size a text node's text needs at its current width, without truncation
+ * Measured on a temporary copy, so the node itself - and any instance override - is untouched
+ * @param node - Text node with its fonts loaded
+ * @returns Width and height the full text takes
+ */
+function measureText(node: TextNode): { width: number; height: number } {
+  const probe = node.clone();
+  try {
+    probe.textTruncation = 'DISABLED';
+    probe.maxLines = null;
+    probe.textAutoResize = node.textAutoResize === 'WIDTH_AND_HEIGHT' ? 'WIDTH_AND_HEIGHT' : 'HEIGHT';
+    return { width: probe.width, height: probe.height };
+  } finally {
+    probe.remove();
+  }
+}
+
+/**
+ * Check whether a frame grows with its content along an axis
+ * @param frame - Parent frame
+ * @param axis - Axis to check
+ * @returns True if the frame is an auto layout frame that hugs its content along the axis
+ */
+function hugsContent(frame: FrameNode | ComponentNode | InstanceNode, axis: 'horizontal' | 'vertical'): boolean {
+  if (frame.layoutMode !== 'HORIZONTAL' && frame.layoutMode !== 'VERTICAL') {
+    return false;
+  }
+  const primaryAxis = frame.layoutMode === 'HORIZONTAL' ? 'horizontal' : 'vertical';
+  return (axis === primaryAxis ? frame.primaryAxisSizingMode : frame.counterAxisSizingMode) === 'AUTO';
+}
+
+/**
+ * Check whether a text node's size is fixed or truncates, so its text has to be measured
+ * @param node - Text node to check
+ * @returns True if the node's box doesn't grow with its text
+ */
+function hasSizedText(node: TextNode): boolean {
+  return node.textTruncation === 'ENDING' || node.textAutoResize === 'TRUNCATE' || node.textAutoResize === 'NONE';
+}
+
+/**
+ * Check whether a text node's text fits after it was written
+ * Fixed-size and truncating text is measured against its own box; any text box is then
+ * checked against its parent frame, inside the padding of an auto layout frame, along
+ * the axes the frame doesn't hug
+ * @param node - Text node that was written, with its fonts loaded
+ * @returns The overflow, or null if the text fits
+ */
+export function findTextOverflow(node: TextNode): TextOverflow | null {
+  const truncates = node.textTruncation === 'ENDING' || node.textAutoResize === 'TRUNCATE';
+  if (hasSizedText(node)) {
+    const needed = measureText(node);
+    const horizontal = Math.round(needed.width - node.width);
+    const vertical = Math.round(needed.height - node.height);
+    if (horizontal > OVERFLOW_TOLERANCE || vertical > OVERFLOW_TOLERANCE) {
+      return {
+        nodeId: node.id,
+        nodeName: node.name,
+        kind: truncates ? 'truncated' : 'box',
+        horizontal: Math.max(horizontal, 0),
+        vertical: Math.max(vertical, 0)
+      };
+    }
+  }
+
+  const parent = node.parent;
+  if (!parent || (parent.type !== 'FRAME' && parent.type !== 'COMPONENT' && parent.type !== 'INSTANCE')) {
+    return null;
+  }
+  const box = node.absoluteBoundingBox;
+  const frame = parent.absoluteBoundingBox;
+  if (!box || !frame) {
+    return null;
+  }
+
+  const autoLayout = parent.layoutMode === 'HORIZONTAL' || parent.layoutMode === 'VERTICAL';
+  const padding = autoLayout
+    ? { top: parent.paddingTop, right: parent.paddingRight, bottom: parent.paddingBottom, left: parent.paddingLeft }
+    : { top: 0, right: 0, bottom: 0, left: 0 };
+  const horizontal = hugsContent(parent, 'horizontal') ? 0 : Math.round(Math.max(
+    frame.x + padding.left - box.x,
+    box.x + box.width - (frame.x + frame.width - padding.right)
+  ));
+  const vertical = hugsContent(parent, 'vertical') ? 0 : Math.round(Math.max(
+    frame.y + padding.top - box.y,
+    box.y + box.height - (frame.y + frame.height - padding.bottom)
+  ));
+  if (horizontal <= OVERFLOW_TOLERANCE && vertical <= OVERFLOW_TOLERANCE) {
+    return null;
+  }
+
+  return {
+    nodeId: node.id,
+    nodeName: node.name,
+    kind: 'container',
+    horizontal: Math.max(horizontal, 0),
+    vertical: Math.max(vertical, 0),
+    containerName: parent.name
+  };
+}
+
+/**
+ * Check the written nodes for text that no longer fits
+ * Runs after every write, once main components have updated their instances and
+ * auto layout has settled. Text that is measured gets its fonts loaded first, as nodes
+ * whose text was already correct were never loaded by the write
+ * @param nodes - Nodes that were written
+ * @param errors - Collects the nodes that can't be measured
+ * @returns Overflowing nodes
+ */
+async function findTextOverflows(nodes: TextNode[], errors: string[]): Promise<TextOverflow[]> {
+  const overflows: TextOverflow[] = [];
+  for (const node of nodes) {
+    try {
+      if (hasSizedText(node)) {
+        await loadNodeFonts(node);
+      }
+      const overflow = findTextOverflow(node);
+      if (overflow) {
+        overflows.push(overflow);
+      }
+    } catch (error) {
+      errors.push(`${node.name}: Could not measure text - ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return overflows;
+}
+
+/**
+ * Read the Contentful binding stored on a node
+ * @param node - Node to read
+ * @returns The bound key and entry ID, or null if the node isn't bound
+ */
+export function getNodeBinding(node: BaseNode): NodeBinding | null {
+  const key = node.getPluginData(NODE_BINDING_KEY);
+  if (!key) {
+    return null;
+  }
+  const entryId = node.getPluginData(NODE_BINDING_ENTRY_ID);
+  return entryId ? { key, entryId } : { key };
+}
+
+/**
+ * Read the value and entry version stored at a node's last push or pull
+ * @param node - Node to read
+ * @returns The baseline, or undefined if the node was never synced
+ */
+export function getSyncBaseline(node: BaseNode): SyncBaseline | undefined {
+  const version = Number(node.getPluginData(NODE_SYNC_VERSION));
+  if (!version) {
+    return undefined;
+  }
+  return { value: node.getPluginData(NODE_SYNC_VALUE), version };
+}
+
+/**
+ * Store a sync baseline on a node
+ * @param node - Node that was synced
+ * @param baseline - Synced value and entry version
+ */
+function setSyncBaseline(node: BaseNode, baseline: SyncBaseline): void {
+  node.setPluginData(NODE_SYNC_VALUE, baseline.value);
+  node.setPluginData(NODE_SYNC_VERSION, String(baseline.version));
+  setPreviewLocale(node, undefined);
+}
+
+/**
+ * Read the locale a node previews
+ * The preview lasts while the node still shows the applied text; editing the text ends it
+ * @param node - Node to read
+ * @returns Previewed locale, or undefined if the node shows its own text
+ */
+export function getPreviewLocale(node: TextNode): string | undefined {
+  const locale = node.getPluginData(NODE_PREVIEW_LOCALE);
+  return locale && node.getPluginData(NODE_PREVIEW_VALUE) === node.characters ? locale : undefined;
+}
+
+/**
+ * Store or clear the locale a node previews
+ * @param node - Node whose text was applied
+ * @param locale - Previewed locale, or undefined to clear it
+ * @param value - Text applied for the locale
+ */
+function setPreviewLocale(node: BaseNode, locale: string | undefined, value = ''): void {
+  node.setPluginData(NODE_PREVIEW_LOCALE, locale || '');
+  node.setPluginData(NODE_PREVIEW_VALUE, locale ? value : '');
+}
+
+/**
+ * Extract the key from a layer name
+ * @param name - Layer name
+ * @param pattern - Compiled NODE_NAME_PATTERN
+ * @returns The pattern's key group, the whole name if there is no key group or it
+ *   matched nothing, or null if the name doesn't match
+ */
+export function getKeyFromName(name: string, pattern: RegExp): string | null {
+  if (!name) {
+    return null;
+  }
+  const match = pattern.exec(name) as (RegExpExecArray & { groups?: Record<string, string | undefined> }) | null;
+  if (!match) {
+    return null;
+  }
+  const groupKey = match.groups ? match.groups[NODE_KEY_GROUP] : undefined;
+  return groupKey || name;
+}
+
+/**
+ * Resolve the translation key of a node
+ * A stored binding wins over the layer name, so renaming a bound layer keeps its key
+ * @param node - Node to check
+ * @param pattern - Compiled NODE_NAME_PATTERN
+ * @returns The key, or null if the node is neither bound nor matches the pattern
+ */
+export function getNodeKey(node: BaseNode, pattern: RegExp): string | null {
+  const binding = getNodeBinding(node);
+  if (binding) {
+    return binding.key;
+  }
+  return getKeyFromName(node.name, pattern);
+}
+
+/**
+ * Apply a change to each of the given text nodes
+ * @param nodeIds - Nodes to change
+ * @param change - Change to apply to each text node
+ * @returns Number of nodes changed and errors for the rest
+ */
+async function updateTextNodes(nodeIds: string[], change: (node: TextNode) => void): Promise<NodeBindingResult> {
+  let count = 0;
+  const errors: string[] = [];
+
+  for (const nodeId of nodeIds) {
+    try {
+      const node = await figma.getNodeByIdAsync(nodeId);
+      if (!node || node.type !== 'TEXT') {
+        errors.push(`Node ${nodeId}: Not found or not a text node`);
+        continue;
+      }
+      change(node as TextNode);
+      count++;
+    } catch (error) {
+      errors.push(`Node ${nodeId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return { count, errors };
+}
+
+/**
+ * Store a Contentful binding on text nodes
+ * @param nodeIds - Nodes to bind
+ * @param binding - Key and entry ID to store
+ * @returns Number of nodes bound and any errors
+ */
+export function bindNodes(nodeIds: string[], binding: NodeBinding): Promise<NodeBindingResult> {
+  return updateTextNodes(nodeIds, node => {
+    node.setPluginData(NODE_BINDING_KEY, binding.key);
+    node.setPluginData(NODE_BINDING_ENTRY_ID, binding.entryId || '');
+  });
+}
+
+/**
+ * Remove the Contentful binding from text nodes
+ * Unbound nodes are matched by layer name again, and their sync baseline is dropped
+ * @param nodeIds - Nodes to unbind
+ * @returns Number of nodes unbound and any errors
+ */
+export function unbindNodes(nodeIds: string[]): Promise<NodeBindingResult> {
+  // Setting an empty value deletes the plugin data
+  return updateTextNodes(nodeIds, node => {
+    node.setPluginData(NODE_SYNC_VALUE, '');
+    node.setPluginData(NODE_SYNC_VERSION, '');
+    node.setPluginData(NODE_BINDING_KEY, '');
+    node.setPluginData(NODE_BINDING_ENTRY_ID, '');
+  });
+}
+
+/**
+ * Record what text nodes and their entry agreed on after a push or pull
+ * @param nodeIds - Nodes that were synced
+ * @param baseline - Synced value and the entry version it was saved as or read from
+ * @returns Number of nodes recorded and any errors
+ */
+export function recordSyncBaseline(nodeIds: string[], baseline: SyncBaseline): Promise<NodeBindingResult> {
+  return updateTextNodes(nodeIds, node => setSyncBaseline(node, baseline));
+}
+
+/**
+ * Get count of text nodes that are bound or match the configured pattern
  * @param config - Contentful configuration with NODE_NAME_PATTERN
+ * @param scope - Where to look for nodes
  * @returns Number of translatable nodes found
  */
-export function getTranslatableNodeCount(config: ContentfulConfig): number {
+export function getTranslatableNodeCount(config: ContentfulConfig, scope: ScanScope = DEFAULT_SCAN_SCOPE): number {
   try {
     if (!figma.currentPage) return 0;
 
     const pattern = new RegExp(config.NODE_NAME_PATTERN);
 
-    // Use findAllWithCriteria for faster search
-    const allTextNodes = figma.currentPage.findAllWithCriteria({
-      types: ['TEXT']
-    }) as TextNode[];
-
-    // Filter by pattern
-    const textNodes = allTextNodes.filter(n => n.name && pattern.test(n.name));
+    // Filter by binding or pattern
+    const textNodes = findTextNodes(scope).filter(({ node }) => getNodeKey(node, pattern) !== null);
     return textNodes.length;
   } catch (error) {
     console.error('Error counting translatable nodes:', error);
@@ -28,50 +576,152 @@ export function getTranslatableNodeCount(config: ContentfulConfig): number {
 }
 
 /**
- * Get all text nodes on the current page
+ * Get all text nodes in a scope
+ * @param scope - Where to look for nodes
  * @returns Array of text node info objects
  */
-export function getAllTextNodes(): TextNodeInfo[] {
-  // Use findAllWithCriteria for faster search
-  const textNodes = figma.currentPage.findAllWithCriteria({
-    types: ['TEXT']
-  }) as TextNode[];
-
-  return textNodes.map(node => ({
+export function getAllTextNodes(scope: ScanScope = DEFAULT_SCAN_SCOPE): TextNodeInfo[] {
+  return findTextNodes(scope).map(({ node, page }) => ({
     id: node.id,
     name: node.name,
-    characters: node.characters
+    characters: node.characters,
+    pageId: page.id,
+    pageName: page.name
   }));
 }
 
 /**
- * Get translatable nodes matching the pattern from config
+ * Get translatable nodes - bound to an entry or matching the pattern from config
  * @param config - Contentful configuration with NODE_NAME_PATTERN
- * @returns Array of text node info objects matching the pattern
+ * @param scope - Where to look for nodes
+ * @returns Array of text node info objects with their resolved keys and pages
  */
-export function getTranslatableNodes(config: ContentfulConfig): TextNodeInfo[] {
+export function getTranslatableNodes(config: ContentfulConfig, scope: ScanScope = DEFAULT_SCAN_SCOPE): TextNodeInfo[] {
   const pattern = new RegExp(config.NODE_NAME_PATTERN);
+  const translatable: TextNodeInfo[] = [];
 
-  // Use findAll with filter to get all TEXT nodes matching the pattern
-  const textNodes = figma.currentPage.findAll((n) =>
-    n.type === 'TEXT' && pattern.test(n.name)
-  ) as TextNode[];
+  for (const { node, page } of findTextNodes(scope)) {
+    const key = getNodeKey(node, pattern);
+    if (key === null) {
+      continue;
+    }
+    const binding = getNodeBinding(node);
+    translatable.push({
+      id: node.id,
+      name: node.name,
+      characters: node.characters,
+      key,
+      entryId: binding ? binding.entryId : undefined,
+      bound: !!binding,
+      pageId: page.id,
+      pageName: page.name,
+      component: getComponentContext(node),
+      baseline: getSyncBaseline(node),
+      preview: getPreviewLocale(node)
+    });
+  }
 
-  return textNodes.map(node => ({
-    id: node.id,
-    name: node.name,
-    characters: node.characters
-  }));
+  return translatable;
+}
+
+/**
+ * Get the text nodes that are neither bound nor match the configured pattern
+ * @param config - Contentful configuration with NODE_NAME_PATTERN
+ * @param scope - Where to look for nodes
+ * @returns Untagged nodes with their page, section, top-level frame and parent names
+ */
+export function getUntaggedNodes(config: ContentfulConfig, scope: ScanScope = DEFAULT_SCAN_SCOPE): UntaggedNodeInfo[] {
+  const pattern = new RegExp(config.NODE_NAME_PATTERN);
+  const untagged: UntaggedNodeInfo[] = [];
+
+  for (const { node, page } of findTextNodes(scope)) {
+    if (getNodeKey(node, pattern) !== null) {
+      continue;
+    }
+    const section = getContainingSection(node);
+    const frame = getOutermostFrame(node);
+    const parent = node.parent && node.parent.type !== 'PAGE' ? node.parent : null;
+    untagged.push({
+      id: node.id,
+      name: node.name,
+      characters: node.characters,
+      pageName: page.name,
+      sectionName: section ? section.name : undefined,
+      frameName: frame ? frame.name : undefined,
+      parentName: parent ? parent.name : undefined
+    });
+  }
+
+  return untagged;
+}
+
+/**
+ * Rename text layers
+ * @param renames - New name per node
+ * @returns Number of nodes renamed and errors for the rest
+ */
+export function renameNodes(renames: NodeRename[]): Promise<NodeBindingResult> {
+  const names = new Map(renames.map(r => [r.nodeId, r.name]));
+  return updateTextNodes(Array.from(names.keys()), node => {
+    node.name = names.get(node.id) as string;
+  });
+}
+
+/**
+ * Index every node using a key across all pages
+ * All pages must be loaded first (see loadScope)
+ * @param config - Contentful configuration with NODE_NAME_PATTERN
+ * @returns Usages per key, in page and layer order
+ */
+export function getKeyIndex(config: ContentfulConfig): Map<string, KeyUsage[]> {
+  const pattern = new RegExp(config.NODE_NAME_PATTERN);
+  const index = new Map<string, KeyUsage[]>();
+
+  for (const { node, page } of findTextNodes('document')) {
+    const key = getNodeKey(node, pattern);
+    if (key === null) {
+      continue;
+    }
+
+    const frame = getTopLevelFrame(node);
+    const usage: KeyUsage = {
+      nodeId: node.id,
+      nodeName: node.name,
+      characters: node.characters,
+      pageId: page.id,
+      pageName: page.name,
+      frameId: frame ? frame.id : undefined,
+      frameName: frame ? frame.name : undefined
+    };
+
+    const usages = index.get(key);
+    if (usages) {
+      usages.push(usage);
+    } else {
+      index.set(key, [usage]);
+    }
+  }
+
+  return index;
 }
 
 /**
  * Apply translations to matching text nodes
+ * Nodes written for a locale other than the target are marked as previewing it, so
+ * their text isn't mistaken for an edit to push
  * @param translations - Array of key-value translations
  * @param config - Contentful configuration
- * @returns Number of nodes updated
- * @throws Error if no nodes found or all translations failed
+ * @param scope - Where to apply the translations
+ * @param previewLocale - Locale applied, if it isn't the target locale
+ * @returns Report with updated count, skipped nodes, keys without translation and font errors
+ * @throws Error if no translatable nodes are found in the scope
  */
-export async function applyTranslations(translations: Translation[], config: ContentfulConfig): Promise<number> {
+export async function applyTranslations(
+  translations: Translation[],
+  config: ContentfulConfig,
+  scope: ScanScope = DEFAULT_SCAN_SCOPE,
+  previewLocale?: string
+): Promise<ApplyTranslationsResult> {
   const translationMap = new Map<string, string>();
   for (const t of translations) {
     if (t.key && t.value) {
@@ -81,79 +731,169 @@ export async function applyTranslations(translations: Translation[], config: Con
 
   const pattern = new RegExp(config.NODE_NAME_PATTERN);
 
-  // Use findAllWithCriteria for faster search
-  const allTextNodes = figma.currentPage.findAllWithCriteria({
-    types: ['TEXT']
-  }) as TextNode[];
+  const found = findTextNodes(scope)
+    .map(({ node }) => node)
+    .filter(n => getNodeKey(n, pattern) !== null);
 
-  const textNodes = allTextNodes.filter(n => pattern.test(n.name));
-
-  if (textNodes.length === 0) {
-    throw new Error('No translatable text nodes found on current page');
+  if (found.length === 0) {
+    throw new Error(NO_NODES_MESSAGES[scope]);
   }
 
-  let count = 0;
+  // Main components first, so instances that follow them already show the translation
+  const textNodes = [...found.filter(isInMainComponent), ...found.filter(n => !isInMainComponent(n))];
+
+  let updated = 0;
   const errors: string[] = [];
   const skipped: string[] = [];
+  const missingKeys = new Set<string>();
+  const written: TextNode[] = [];
 
   for (const node of textNodes) {
+    const key = getNodeKey(node, pattern) as string;
+    const translation = translationMap.get(key);
+    if (!translation) {
+      missingKeys.add(key);
+      continue;
+    }
+
     // Check if node is locked
     if (node.locked) {
       skipped.push(`${node.name}: Locked`);
       continue;
     }
 
-    const translation = translationMap.get(node.name);
-    if (translation) {
-      try {
-        // Handle mixed fonts in text nodes
-        if (node.hasMissingFont) {
-          errors.push(`${node.name}: Missing font`);
-          continue;
-        }
-
-        // Load all unique fonts in the text node
-        const fontName = node.fontName;
-        if (fontName === figma.mixed) {
-          // Text has mixed fonts, load all ranges
-          const uniqueFonts = new Set<string>();
-          for (let i = 0; i < node.characters.length; i++) {
-            const font = node.getRangeFontName(i, i + 1) as FontName;
-            uniqueFonts.add(`${font.family}:${font.style}`);
-            await figma.loadFontAsync(font);
-          }
-        } else {
-          await figma.loadFontAsync(fontName as FontName);
-        }
-
-        node.characters = translation;
-        count++;
-      } catch (fontError) {
-        errors.push(`${node.name}: ${fontError instanceof Error ? fontError.message : 'Font error'}`);
-      }
+    if (node.hasMissingFont) {
+      skipped.push(`${node.name}: Missing font`);
+      continue;
+    }
+
+    try {
+      await writeText(node, translation);
+      setPreviewLocale(node, previewLocale, node.characters);
+      written.push(node);
+      updated++;
+    } catch (fontError) {
+      errors.push(`${node.name}: ${fontError instanceof Error ? fontError.message : 'Font error'}`);
+    }
+  }
+
+  const overflows = await findTextOverflows(written, errors);
+
+  return {
+    updated,
+    skipped,
+    missingKeys: Array.from(missingKeys),
+    errors,
+    overflows
+  };
+}
+
+/**
+ * Compare nodes with their Contentful entries
+ * @param items - Contentful items by key, as loaded by fetchAllContentfulItems
+ * @param config - Contentful configuration with NODE_NAME_PATTERN
+ * @param scope - Where to look for nodes
+ * @returns One change per node whose text differs from a non-empty entry value
+ */
+export function getPullChanges(
+  items: Record<string, ContentfulItem>,
+  config: ContentfulConfig,
+  scope: ScanScope = DEFAULT_SCAN_SCOPE
+): PullChange[] {
+  const pattern = new RegExp(config.NODE_NAME_PATTERN);
+  const changes: PullChange[] = [];
+
+  for (const { node, page } of findTextNodes(scope)) {
+    const key = getNodeKey(node, pattern);
+    const item = key !== null ? items[key] : undefined;
+    // An empty value means the entry isn't translated in this locale - keep the design text
+    if (key === null || !item || !item.value || item.value === node.characters) {
+      continue;
+    }
+    changes.push({
+      nodeId: node.id,
+      nodeName: node.name,
+      key,
+      current: node.characters,
+      incoming: item.value,
+      version: item.version || undefined,
+      pageName: page.name
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Apply selected pull changes in one pass
+ * Nodes edited since the diff are skipped rather than overwritten; pulled nodes
+ * record the entry version as their sync baseline
+ * @param changes - Changes chosen from getPullChanges
+ * @returns Updated count and the nodes that were locked, missing fonts, skipped or failed
+ */
+export async function applyPullChanges(changes: PullChange[]): Promise<PullApplyResult> {
+  const result: PullApplyResult = { updated: 0, locked: [], missingFont: [], skipped: [], errors: [] };
+  const targets: Array<{ node: TextNode; change: PullChange }> = [];
+
+  for (const change of changes) {
+    const node = await figma.getNodeByIdAsync(change.nodeId);
+    if (!node || node.type !== 'TEXT') {
+      result.skipped.push(`${change.nodeName}: Not found`);
+      continue;
     }
+    targets.push({ node: node as TextNode, change });
   }
 
-  if (count === 0) {
-    if (errors.length > 0) {
-      throw new Error(`Translation failed: ${errors[0]}`);
+  // Main components first, so instances that follow them already show the new text
+  const ordered = [
+    ...targets.filter(t => isInMainComponent(t.node)),
+    ...targets.filter(t => !isInMainComponent(t.node))
+  ];
+
+  for (const { node, change } of ordered) {
+    if (node.characters === change.incoming) {
+      if (change.version) {
+        setSyncBaseline(node, { value: change.incoming, version: change.version });
+      }
+      result.updated++;
+      continue;
     }
-    if (skipped.length > 0) {
-      throw new Error(`All nodes skipped: ${skipped[0]}`);
+    if (node.characters !== change.current) {
+      result.skipped.push(`${node.name}: Changed since the diff`);
+      continue;
+    }
+    if (node.locked) {
+      result.locked.push(node.name);
+      continue;
+    }
+    if (node.hasMissingFont) {
+      result.missingFont.push(node.name);
+      continue;
+    }
+
+    try {
+      await writeText(node, change.incoming);
+      if (change.version) {
+        setSyncBaseline(node, { value: change.incoming, version: change.version });
+      }
+      result.updated++;
+    } catch (error) {
+      result.errors.push(`${node.name}: ${error instanceof Error ? error.message : 'Font error'}`);
     }
-    throw new Error('No matching translations found for text nodes');
   }
 
-  return count;
+  return result;
 }
 
 /**
  * Apply record field values to mapped nodes
  * @param mappings - Array of field-to-node mappings
  * @param recordFields - Record field values to apply
+ * @returns Written nodes whose text no longer fits
  */
-export async function applyRecordToNodes(mappings: FieldMapping[], recordFields: Record<string, unknown>): Promise<void> {
+export async function applyRecordToNodes(mappings: FieldMapping[], recordFields: Record<string, unknown>): Promise<TextOverflow[]> {
   const errors: string[] = [];
+  const written: TextNode[] = [];
 
   for (const mapping of mappings) {
     try {
@@ -176,35 +916,26 @@ export async function applyRecordToNodes(mappings: FieldMapping[], recordFields:
 
       const textValue = String(fieldValue);
 
-      // Handle fonts
       if (node.hasMissingFont) {
         errors.push(`Missing font in node: ${node.name}`);
         continue;
       }
 
-      const fontName = node.fontName;
-      if (fontName === figma.mixed) {
-        // Text has mixed fonts, load all ranges
-        const uniqueFonts = new Set<string>();
-        for (let i = 0; i < node.characters.length; i++) {
-          const font = node.getRangeFontName(i, i + 1) as FontName;
-          uniqueFonts.add(`${font.family}:${font.style}`);
-          await figma.loadFontAsync(font);
-        }
-      } else {
-        await figma.loadFontAsync(fontName as FontName);
-      }
-
-      node.characters = textValue;
+      await writeText(node, textValue);
+      written.push(node);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
       errors.push(`Error applying to node: ${errorMsg}`);
     }
   }
 
+  const overflows = await findTextOverflows(written, errors);
+
   if (errors.length > 0) {
     console.warn('Some mappings failed:', errors);
   }
+
+  return overflows;
 }
 
 /**
@@ -246,20 +977,7 @@ export async function updateMultipleNodes(nodeIds: string[], newText: string): P
         continue;
       }
 
-      // Load fonts (handle mixed fonts)
-      const fontName = textNode.fontName;
-      if (fontName === figma.mixed) {
-        // Text has mixed fonts, load all ranges
-        for (let i = 0; i < textNode.characters.length; i++) {
-          const font = textNode.getRangeFontName(i, i + 1) as FontName;
-          await figma.loadFontAsync(font);
-        }
-      } else {
-        await figma.loadFontAsync(fontName as FontName);
-      }
-
-      // Update the text
-      textNode.characters = newText;
+      await writeText(textNode, newText);
       successCount++;
 
     } catch (nodeError) {
@@ -277,17 +995,28 @@ export async function updateMultipleNodes(nodeIds: string[], newText: string): P
 }
 
 /**
- * Select a node in Figma and scroll to it
+ * Select a node in Figma and scroll to it, switching to its page first
  * @param nodeId - ID of the node to select
+ * @returns True if the node was found and selected
  */
-export async function selectNode(nodeId: string): Promise<void> {
+export async function selectNode(nodeId: string): Promise<boolean> {
   try {
     const node = await figma.getNodeByIdAsync(nodeId);
-    if (node && 'type' in node) {
-      figma.currentPage.selection = [node as SceneNode];
-      figma.viewport.scrollAndZoomIntoView([node as SceneNode]);
+    if (!node || !('type' in node)) {
+      return false;
+    }
+
+    // Selection is per page, so a node on another page can only be selected from there
+    const page = getContainingPage(node);
+    if (page && page !== figma.currentPage) {
+      await figma.setCurrentPageAsync(page);
     }
+
+    figma.currentPage.selection = [node as SceneNode];
+    figma.viewport.scrollAndZoomIntoView([node as SceneNode]);
+    return true;
   } catch (error) {
     console.error('Error selecting node:', error);
+    return false;
   }
 }
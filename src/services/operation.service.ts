@@ -0,0 +1,64 @@
+import { Operation, AbortControllerLike } from '../types';
+import { createAbortController } from './network.service';
+
+// Running operations, keyed by operation ID, with the controller that cancels them
+const activeOperations = new Map<string, AbortControllerLike>();
+
+/**
+ * Register a cancellable operation
+ * Starting an operation with an ID that is already running cancels the earlier one
+ * @param operationId - ID chosen by the UI; generated from the prefix when omitted
+ * @param prefix - Prefix for generated IDs
+ * @returns The operation's ID and abort signal
+ */
+export function startOperation(operationId: string | undefined, prefix: string): Operation {
+  const id = operationId || `${prefix}-${Date.now()}`;
+
+  const existing = activeOperations.get(id);
+  if (existing) {
+    existing.abort();
+  }
+
+  const controller = createAbortController();
+  activeOperations.set(id, controller);
+  return { id, signal: controller.signal };
+}
+
+/**
+ * Unregister a finished operation
+ * @param operation - Operation returned by startOperation
+ */
+export function finishOperation(operation: Operation): void {
+  const controller = activeOperations.get(operation.id);
+  // Only remove our own entry - a restart under the same ID registers a new controller
+  if (controller && controller.signal === operation.signal) {
+    activeOperations.delete(operation.id);
+  }
+}
+
+/**
+ * Cancel a running operation, aborting its in-flight requests
+ * @param operationId - Operation to cancel
+ * @returns True if the operation was running
+ */
+export function cancelOperation(operationId: string): boolean {
+  const controller = activeOperations.get(operationId);
+  if (!controller) {
+    return false;
+  }
+
+  controller.abort();
+  activeOperations.delete(operationId);
+  return true;
+}
+
+/**
+ * Cancel every running operation
+ * @returns Number of operations cancelled
+ */
+export function cancelAllOperations(): number {
+  const count = activeOperations.size;
+  activeOperations.forEach(controller => controller.abort());
+  activeOperations.clear();
+  return count;
+}
@@ -0,0 +1,286 @@
+import { ContentfulConfig } from '../types/config.types';
+import { ContentfulItemsSaver, ContentfulSaveItem, Locale } from '../types/contentful.types';
+import { VariableSyncResult, VariablePushResult } from '../types/figma.types';
+import { AbortSignalLike } from '../types/messages.types';
+import {
+  VARIABLE_COLLECTION_PREFIX,
+  VARIABLE_KEY_DATA,
+  VARIABLE_ENTRY_ID,
+  VARIABLE_SYNC_VERSION,
+  VARIABLE_SYNC_VALUES
+} from '../constants';
+import { fetchLocales, fetchAllContentfulItems } from './contentful.service';
+
+/**
+ * Name of the variable collection holding a content type's translations
+ * @param config - Contentful configuration
+ * @returns Collection name
+ */
+export function getCollectionName(config: ContentfulConfig): string {
+  return `${VARIABLE_COLLECTION_PREFIX}: ${config.CONTENT_TYPE}`;
+}
+
+/**
+ * Turn a key into a valid variable name
+ * Dots become group separators; braces aren't allowed in variable names
+ * @param key - Contentful key
+ * @returns Variable name
+ */
+function toVariableName(key: string): string {
+  return key.replace(/\./g, '/').replace(/[{}]/g, '_');
+}
+
+/**
+ * Read the key a variable was created for
+ * @param variable - Variable in the synced collection
+ * @returns The stored key, or the variable name for variables added by hand
+ */
+function getVariableKey(variable: Variable): string {
+  return variable.getPluginData(VARIABLE_KEY_DATA) || variable.name;
+}
+
+/**
+ * Read the value each mode held after the last sync or push
+ * @param variable - Variable in the synced collection
+ * @returns Values by mode ID; empty if the variable was never synced
+ */
+function getSyncedValues(variable: Variable): Record<string, string> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(variable.getPluginData(VARIABLE_SYNC_VALUES) || '{}');
+  } catch {
+    return {};
+  }
+  return parsed && typeof parsed === 'object' ? parsed as Record<string, string> : {};
+}
+
+/**
+ * Record the value a mode holds after a sync or push, so a later push only sends edits
+ * @param variable - Variable in the synced collection
+ * @param modeId - Mode that was synced
+ * @param value - Value the mode holds
+ */
+function recordSyncedValue(variable: Variable, modeId: string, value: VariableValue): void {
+  const values = getSyncedValues(variable);
+  if (typeof value === 'string') {
+    values[modeId] = value;
+  } else {
+    delete values[modeId];
+  }
+  variable.setPluginData(VARIABLE_SYNC_VALUES, JSON.stringify(values));
+}
+
+/**
+ * Record the entry a variable's values were read from or saved to
+ * @param variable - Variable in the synced collection
+ * @param entryId - Contentful entry ID
+ * @param version - Entry version the values are based on
+ */
+function recordEntry(variable: Variable, entryId: string, version: number): void {
+  variable.setPluginData(VARIABLE_ENTRY_ID, entryId);
+  variable.setPluginData(VARIABLE_SYNC_VERSION, String(version));
+}
+
+/**
+ * Put the default locale first, so it becomes the collection's default mode
+ * @param locales - Locales from Contentful
+ * @returns Locales with the default first
+ * @throws Error if the space has no locales
+ */
+function orderLocales(locales: Locale[]): Locale[] {
+  if (locales.length === 0) {
+    throw new Error('No locales found in Contentful');
+  }
+  const defaultLocale = locales.find(l => l.default) || locales[0];
+  return [defaultLocale, ...locales.filter(l => l !== defaultLocale)];
+}
+
+/**
+ * Find the synced variable collection in the document
+ * @param config - Contentful configuration
+ * @returns The collection, or undefined if it hasn't been created yet
+ */
+async function findCollection(config: ContentfulConfig): Promise<VariableCollection | undefined> {
+  const name = getCollectionName(config);
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  return collections.find(c => c.name === name);
+}
+
+/**
+ * Get the string variables of a collection, keyed by Contentful key
+ * @param collection - Synced collection
+ * @returns Variables by key
+ */
+async function getVariablesByKey(collection: VariableCollection): Promise<Map<string, Variable>> {
+  const variables = await figma.variables.getLocalVariablesAsync('STRING');
+  const byKey = new Map<string, Variable>();
+  for (const variable of variables) {
+    if (variable.variableCollectionId === collection.id) {
+      byKey.set(getVariableKey(variable), variable);
+    }
+  }
+  return byKey;
+}
+
+/**
+ * Find or add the mode for a locale
+ * A new collection's first mode is renamed to the default locale
+ * @param collection - Synced collection
+ * @param code - Locale code used as the mode name
+ * @param isNewCollection - True if the collection was just created
+ * @returns Mode ID
+ * @throws Error if the mode can't be added (e.g. the plan's mode limit is reached)
+ */
+function ensureMode(collection: VariableCollection, code: string, isNewCollection: boolean): string {
+  const existing = collection.modes.find(m => m.name === code);
+  if (existing) {
+    return existing.modeId;
+  }
+  if (isNewCollection && collection.modes.length === 1 && collection.modes[0].modeId === collection.defaultModeId) {
+    const modeId = collection.defaultModeId;
+    if (collection.modes[0].name !== code) {
+      collection.renameMode(modeId, code);
+    }
+    return modeId;
+  }
+  return collection.addMode(code);
+}
+
+/**
+ * Create or update the string variable collection for the configured content type
+ * One mode per Contentful locale and one variable per key; values missing in a
+ * locale are left as they are. The value each mode holds afterwards is recorded,
+ * so a push only sends what was edited since
+ * @param config - Contentful configuration
+ * @param signal - Optional signal that cancels the requests
+ * @returns Collection name, synced modes, counts and per-locale errors
+ */
+export async function syncVariables(config: ContentfulConfig, signal?: AbortSignalLike): Promise<VariableSyncResult> {
+  const locales = orderLocales(await fetchLocales(config, signal));
+  const defaultCode = locales[0].code;
+  const collectionName = getCollectionName(config);
+
+  let collection = await findCollection(config);
+  const isNewCollection = !collection;
+  if (!collection) {
+    collection = figma.variables.createVariableCollection(collectionName);
+  }
+
+  const variables = await getVariablesByKey(collection);
+  const result: VariableSyncResult = { collectionName, modes: [], created: 0, updated: 0, errors: [] };
+
+  for (const locale of locales) {
+    let modeId: string;
+    try {
+      modeId = ensureMode(collection, locale.code, isNewCollection && locale.code === defaultCode);
+    } catch (error) {
+      result.errors.push(`${locale.code}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+    result.modes.push(locale.code);
+
+    const items = await fetchAllContentfulItems(config, { target: locale.code, default: defaultCode }, signal);
+
+    for (const key of Object.keys(items)) {
+      let variable = variables.get(key);
+      if (!variable) {
+        variable = figma.variables.createVariable(toVariableName(key), collection, 'STRING');
+        variable.setPluginData(VARIABLE_KEY_DATA, key);
+        variables.set(key, variable);
+        result.created++;
+      }
+
+      const value = items[key].value;
+      if (value && variable.valuesByMode[modeId] !== value) {
+        variable.setValueForMode(modeId, value);
+        result.updated++;
+      }
+      // Includes values a new mode copied from the default mode, which aren't edits
+      recordSyncedValue(variable, modeId, variable.valuesByMode[modeId]);
+      recordEntry(variable, items[key].id, items[key].version);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Push edited variable values back to Contentful, one locale per mode
+ * Only non-empty values that changed since the last sync are saved, through the given
+ * saver so they get the same naming, reuse and conflict checks as any other push.
+ * Modes that aren't Contentful locales are reported and skipped
+ * @param config - Contentful configuration
+ * @param saveItems - Saves one locale's items
+ * @param signal - Optional signal that cancels the requests
+ * @returns Number of values saved and failed, with errors
+ * @throws Error if the collection hasn't been synced yet, or the push was cancelled
+ */
+export async function pushVariables(
+  config: ContentfulConfig,
+  saveItems: ContentfulItemsSaver,
+  signal?: AbortSignalLike
+): Promise<VariablePushResult> {
+  const collection = await findCollection(config);
+  if (!collection) {
+    throw new Error(`No "${getCollectionName(config)}" variable collection - sync variables first`);
+  }
+
+  const locales = orderLocales(await fetchLocales(config, signal));
+  const defaultCode = locales[0].code;
+  const variables = await getVariablesByKey(collection);
+  const result: VariablePushResult = { saved: 0, failed: 0, errors: [] };
+
+  for (const mode of collection.modes) {
+    if (!locales.some(l => l.code === mode.name)) {
+      result.errors.push(`Mode "${mode.name}" is not a Contentful locale`);
+      continue;
+    }
+
+    const items: ContentfulSaveItem[] = [];
+    for (const [key, variable] of variables) {
+      const value = variable.valuesByMode[mode.modeId];
+      // Aliases to other variables have no text of their own, and an empty value
+      // would wipe the translation
+      if (typeof value !== 'string' || value === '' || getSyncedValues(variable)[mode.modeId] === value) {
+        continue;
+      }
+
+      // The version recorded at the last sync makes an entry edited since then a conflict
+      const entryId = variable.getPluginData(VARIABLE_ENTRY_ID);
+      const version = Number(variable.getPluginData(VARIABLE_SYNC_VERSION));
+      items.push({
+        key,
+        value,
+        isUpdate: !!entryId,
+        entryId: entryId || undefined,
+        version: entryId && version ? version : undefined
+      });
+    }
+    if (items.length === 0) {
+      continue;
+    }
+
+    const summary = await saveItems(items, { target: mode.name, default: defaultCode }, {
+      signal,
+      onProgress: ({ key, result: saved }) => {
+        const variable = variables.get(key);
+        const item = items.find(i => i.key === key);
+        if (saved.success && saved.entryId && variable && item) {
+          recordSyncedValue(variable, mode.modeId, item.value);
+          recordEntry(variable, saved.entryId, saved.version || 0);
+        }
+      }
+    });
+    if (summary.cancelled.length > 0) {
+      throw new Error('Variable push cancelled');
+    }
+
+    result.saved += summary.created.length + summary.updated.length;
+    result.failed += summary.failed.length;
+    summary.failed.forEach(failure => {
+      result.errors.push(`${failure.key} (${mode.name}): ${failure.error}`);
+    });
+  }
+
+  return result;
+}
@@ -9,4 +9,55 @@ export interface ContentfulConfig {
   KEY_FIELD: string;
   VALUE_FIELD: string;
   NODE_NAME_PATTERN: string;
+  /** Locale to read and write; empty means the space's default locale */
+  TARGET_LOCALE: string;
+  /** Template for generated layer names, e.g. "jams_{frame}.{layer}"; empty uses the default */
+  KEY_TEMPLATE?: string;
+  /** Casing of each generated name part (a KeyCase); empty uses the default */
+  KEY_CASE?: string;
+  /** Key lint severities as "rule:severity" pairs, e.g. "lowercase:error, copy-suffix:warning";
+   * rules not listed keep their default */
+  KEY_LINT_RULES?: string;
+  /** Longest key the max-length rule allows; empty uses the default */
+  KEY_MAX_LENGTH?: string;
+}
+
+/**
+ * Casing applied to the parts of a generated key
+ */
+export type KeyCase = 'snake' | 'camel' | 'kebab' | 'pascal';
+
+/**
+ * Naming rule checked on translation keys
+ */
+export type KeyLintRule = 'lowercase' | 'namespace' | 'max-length' | 'copy-suffix' | 'text-conflict';
+
+/**
+ * How a broken lint rule is reported; error-level rules block pushing the key
+ */
+export type LintSeverity = 'off' | 'warning' | 'error';
+
+/**
+ * Named connection settings the user can switch between
+ */
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  config: ContentfulConfig;
+}
+
+/**
+ * Stored connection profiles and which one is in use
+ */
+export interface ProfileStore {
+  activeProfileId: string;
+  profiles: ConnectionProfile[];
+}
+
+/**
+ * Profile as listed in the UI - without its credentials
+ */
+export interface ProfileSummary {
+  id: string;
+  name: string;
 }
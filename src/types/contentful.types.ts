@@ -1,9 +1,22 @@
+import { RetryAttempt, AbortSignalLike } from './messages.types';
+
 /**
  * Locale information from Contentful
  */
 export interface Locale {
   code: string;
   name: string;
+  default: boolean;
+  fallbackCode: string | null;
+}
+
+/**
+ * Locales used when reading and writing entries
+ * Non-localized fields (such as the key) only accept the default locale
+ */
+export interface LocaleContext {
+  target: string;
+  default: string;
 }
 
 /**
@@ -38,6 +51,8 @@ export interface ContentfulRecord {
 export interface ContentfulLocaleItem {
   code: string;
   name: string;
+  default?: boolean;
+  fallbackCode?: string | null;
 }
 
 /**
@@ -45,10 +60,48 @@ export interface ContentfulLocaleItem {
  */
 export interface ContentfulTranslationItem {
   fields: {
-    [key: string]: string;
+    [key: string]: string | Record<string, string>;
+  };
+}
+
+/**
+ * Entry as listed by the entries endpoint
+ */
+export interface ContentfulEntry extends ContentfulTranslationItem {
+  sys: {
+    id: string;
+    version?: number;
+    publishedVersion?: number;
+    archivedVersion?: number;
   };
 }
 
+/**
+ * One page of the entries endpoint
+ */
+export interface ContentfulEntriesPage {
+  items?: ContentfulEntry[];
+  total?: number;
+}
+
+/**
+ * Publish state of an entry
+ * - draft: never published
+ * - published: live and unchanged since publishing
+ * - changed: published, but edited since
+ */
+export type PublishStatus = 'draft' | 'published' | 'changed';
+
+/**
+ * Translation entry as loaded for write mode
+ */
+export interface ContentfulItem {
+  value: string;
+  id: string;
+  version: number;
+  status: PublishStatus;
+}
+
 /**
  * Item to save to Contentful
  */
@@ -57,6 +110,37 @@ export interface ContentfulSaveItem {
   value: string;
   isUpdate?: boolean;
   entryId?: string;
+  /** Entry version the value is based on; an update is refused once the entry has moved on */
+  version?: number;
+  /** Text nodes to bind to the entry once it is saved */
+  nodeIds?: string[];
+  /** Create the entry even if other entries already hold the same or similar text */
+  allowDuplicate?: boolean;
+}
+
+/**
+ * State of an entry that changed in Contentful after the value being saved was loaded
+ */
+export interface ContentfulSaveConflict {
+  /** Current entry version */
+  version: number;
+  /** Current value in the target locale */
+  value: string;
+}
+
+/**
+ * Existing entry whose value is the same as, or close to, a value about to be created
+ */
+export interface ReuseSuggestion {
+  key: string;
+  entryId: string;
+  value: string;
+  /** exact: identical; normalized: equal ignoring whitespace and case; similar: close enough */
+  match: 'exact' | 'normalized' | 'similar';
+  /** Similarity from 0 to 1 */
+  similarity: number;
+  /** Layer name that resolves to the key, if NODE_NAME_PATTERN allows one */
+  name?: string;
 }
 
 /**
@@ -64,6 +148,14 @@ export interface ContentfulSaveItem {
  */
 export interface ContentfulSaveResult {
   success: boolean;
+  /** Entry that was created or updated */
+  entryId?: string;
+  /** Entry version after the save */
+  version?: number;
+  /** Set when the update was refused because the entry changed in Contentful */
+  conflict?: ContentfulSaveConflict;
+  /** Set when a new entry wasn't created because existing entries hold the same or similar text */
+  suggestions?: ReuseSuggestion[];
   error?: string;
   errorDetails?: {
     status?: number;
@@ -73,6 +165,59 @@ export interface ContentfulSaveResult {
     version?: number;
     key?: string;
     exception?: string;
+    retries?: RetryAttempt[];
     [key: string]: unknown;
   };
 }
+
+/**
+ * Result of publishing or unpublishing an entry
+ */
+export interface ContentfulPublishResult extends ContentfulSaveResult {
+  entryId: string;
+}
+
+/**
+ * Progress of a single item within a bulk save
+ */
+export interface ContentfulBatchSaveProgress {
+  key: string;
+  completed: number;
+  total: number;
+  result: ContentfulSaveResult;
+}
+
+/**
+ * Options for a bulk save
+ */
+export interface ContentfulBatchSaveOptions {
+  concurrency?: number;
+  onProgress?: (progress: ContentfulBatchSaveProgress) => void;
+  signal?: AbortSignalLike;
+}
+
+/**
+ * Summary of a bulk save
+ * Keys in `cancelled` were not saved because the batch was cancelled
+ */
+export interface ContentfulBatchSaveResult {
+  created: string[];
+  updated: string[];
+  failed: Array<{
+    key: string;
+    error?: string;
+    errorDetails?: ContentfulSaveResult['errorDetails'];
+    conflict?: ContentfulSaveConflict;
+    suggestions?: ReuseSuggestion[];
+  }>;
+  cancelled: string[];
+}
+
+/**
+ * Saves items in one locale - lets services save through the checks a push applies
+ */
+export type ContentfulItemsSaver = (
+  items: ContentfulSaveItem[],
+  locales: LocaleContext,
+  options: ContentfulBatchSaveOptions
+) => Promise<ContentfulBatchSaveResult>;
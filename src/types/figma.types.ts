@@ -1,3 +1,5 @@
+import { KeyLintRule, LintSeverity } from './config.types';
+
 /**
  * Information about a Figma text node
  */
@@ -5,6 +7,80 @@ export interface TextNodeInfo {
   id: string;
   name: string;
   characters: string;
+  /** Translation key - the bound key, otherwise the layer name */
+  key?: string;
+  /** Entry the node is bound to, if known */
+  entryId?: string;
+  /** True when the key comes from a stored binding rather than the layer name */
+  bound?: boolean;
+  /** Page the node lives on */
+  pageId?: string;
+  pageName?: string;
+  /** Component the text belongs to, if it is inside a main component or an instance */
+  component?: TextComponentContext;
+  /** Value and entry version at the last push or pull */
+  baseline?: SyncBaseline;
+  /** Locale whose text the node shows after applying it, other than the target locale */
+  preview?: string;
+}
+
+/**
+ * What a node and its entry agreed on at the last successful push or pull
+ * Comparing both sides against it tells who changed the text since
+ */
+export interface SyncBaseline {
+  value: string;
+  version: number;
+}
+
+/**
+ * Where a text node sits in a component
+ */
+export interface TextComponentContext {
+  /** 'main' for text in a main component, 'instance' for text in an instance */
+  role: 'main' | 'instance';
+  /** The component set (for variants), main component or instance that owns the text */
+  ownerId: string;
+  ownerName: string;
+  /** TEXT component property the text is bound to, if any */
+  propertyName?: string;
+  /** True for instance text that differs from its main component */
+  overridden: boolean;
+}
+
+/**
+ * Where to look for text nodes: the selected layers, the current page or every page
+ */
+export type ScanScope = 'selection' | 'page' | 'document';
+
+/**
+ * A place in the document where a key is used
+ */
+export interface KeyUsage {
+  nodeId: string;
+  nodeName: string;
+  characters: string;
+  pageId: string;
+  pageName: string;
+  /** Top-level frame containing the node, if it isn't directly on the page */
+  frameId?: string;
+  frameName?: string;
+}
+
+/**
+ * Link between a text node and a Contentful entry, stored on the node
+ */
+export interface NodeBinding {
+  key: string;
+  entryId?: string;
+}
+
+/**
+ * Result of linking or unlinking text nodes
+ */
+export interface NodeBindingResult {
+  count: number;
+  errors: string[];
 }
 
 /**
@@ -15,3 +91,162 @@ export interface FieldMapping {
   node: string;
   contentTypeId?: string;
 }
+
+/**
+ * Result of applying translations to text nodes
+ */
+export interface ApplyTranslationsResult {
+  updated: number;
+  skipped: string[];
+  missingKeys: string[];
+  errors: string[];
+  /** Written nodes whose text no longer fits */
+  overflows: TextOverflow[];
+}
+
+/**
+ * Text that no longer fits after new text was written
+ */
+export interface TextOverflow {
+  nodeId: string;
+  nodeName: string;
+  /**
+   * truncated: cut off by truncation or a line limit; box: spills out of its fixed-size
+   * text box; container: the text box reaches past its parent frame or its padding
+   */
+  kind: 'truncated' | 'box' | 'container';
+  /** Pixels that don't fit, in each direction */
+  horizontal: number;
+  vertical: number;
+  /** Frame the text box reaches past, for container overflows */
+  containerName?: string;
+}
+
+/**
+ * A node whose text differs from its Contentful entry
+ */
+export interface PullChange {
+  nodeId: string;
+  nodeName: string;
+  key: string;
+  /** Text in Figma when the diff was made */
+  current: string;
+  /** Text in Contentful */
+  incoming: string;
+  /** Entry version the incoming text was read from */
+  version?: number;
+  pageName?: string;
+}
+
+/**
+ * Result of applying pulled text to nodes
+ */
+export interface PullApplyResult {
+  updated: number;
+  locked: string[];
+  missingFont: string[];
+  /** Nodes that no longer exist or were edited since the diff */
+  skipped: string[];
+  errors: string[];
+}
+
+/**
+ * Result of syncing Contentful translations into string variables
+ */
+export interface VariableSyncResult {
+  collectionName: string;
+  /** Locale codes with a mode in the collection */
+  modes: string[];
+  created: number;
+  updated: number;
+  errors: string[];
+}
+
+/**
+ * Result of pushing variable values back to Contentful
+ */
+export interface VariablePushResult {
+  saved: number;
+  failed: number;
+  errors: string[];
+}
+
+/**
+ * Text node that has no key yet, with the layers a generated key is built from
+ */
+export interface UntaggedNodeInfo {
+  id: string;
+  name: string;
+  characters: string;
+  pageName: string;
+  sectionName?: string;
+  /** Top-level frame on the page */
+  frameName?: string;
+  /** Direct parent, if it isn't the page */
+  parentName?: string;
+}
+
+/**
+ * Generated key for an untagged node
+ */
+export interface KeyProposal {
+  nodeId: string;
+  nodeName: string;
+  characters: string;
+  pageName: string;
+  /** Layer name to give the node */
+  name: string;
+  /** Key the new layer name resolves to under NODE_NAME_PATTERN */
+  key: string;
+  /** Set when the name was suffixed because the key was taken by different text */
+  collision?: 'contentful' | 'document' | 'proposal';
+  /** Contentful already has this key with the node's text */
+  existing?: boolean;
+}
+
+/**
+ * Generated keys, with the nodes no key could be generated for
+ */
+export interface KeyGenerationResult {
+  proposals: KeyProposal[];
+  skipped: string[];
+}
+
+/**
+ * New name for a layer
+ */
+export interface NodeRename {
+  nodeId: string;
+  name: string;
+}
+
+/**
+ * Untagged node whose text is already the value of a Contentful entry
+ */
+export interface TextMatch {
+  nodeId: string;
+  nodeName: string;
+  characters: string;
+  pageName?: string;
+  /** Key of the entry with the same text */
+  key: string;
+  entryId: string;
+  /** Layer name that resolves to the key under NODE_NAME_PATTERN, if the pattern allows one */
+  name?: string;
+  /** Other keys with the same text, if the value isn't unique */
+  otherKeys?: string[];
+}
+
+/**
+ * Broken key lint rule
+ */
+export interface KeyLintIssue {
+  key: string;
+  /** Node using the key; absent when only the key itself was checked */
+  nodeId?: string;
+  rule: KeyLintRule;
+  severity: Exclude<LintSeverity, 'off'>;
+  message: string;
+  /** Key that would satisfy the rule, if one can be derived */
+  fix?: string;
+}
@@ -1,26 +1,163 @@
-import { ContentfulConfig } from './config.types';
-import { FieldMapping } from './figma.types';
+import { ContentfulConfig, ProfileSummary } from './config.types';
+import {
+  FieldMapping,
+  TextNodeInfo,
+  ApplyTranslationsResult,
+  NodeBindingResult,
+  ScanScope,
+  KeyUsage,
+  VariableSyncResult,
+  VariablePushResult,
+  PullChange,
+  PullApplyResult,
+  KeyGenerationResult,
+  TextMatch,
+  KeyLintIssue,
+  TextOverflow,
+  NodeRename
+} from './figma.types';
+import {
+  Locale,
+  ContentfulRecord,
+  ContentfulItem,
+  ContentfulSaveItem,
+  ContentfulSaveResult,
+  ContentfulPublishResult,
+  ContentfulBatchSaveResult
+} from './contentful.types';
+
+/**
+ * A UI request of the given type; requestId is echoed on every response
+ */
+type UIRequest<T extends string, Fields = unknown> = { type: T; requestId?: string } & Fields;
 
 /**
  * Message sent from UI to plugin backend
+ * Validated at runtime before dispatch (see handlers/protocol.ts)
+ */
+export type UIMessage =
+  | UIRequest<'init'>
+  | UIRequest<'plugin-ready'>
+  | UIRequest<'save-config', { config: ContentfulConfig }>
+  | UIRequest<'load-profiles'>
+  | UIRequest<'create-profile', { name: string; config: ContentfulConfig }>
+  | UIRequest<'rename-profile', { profileId: string; name: string }>
+  | UIRequest<'duplicate-profile', { profileId: string; name?: string }>
+  | UIRequest<'delete-profile' | 'switch-profile', { profileId: string }>
+  | UIRequest<'preflight-test-locales', { config: ContentfulConfig }>
+  | UIRequest<'preflight-check-content', { config: ContentfulConfig }>
+  | UIRequest<'load-content-types', { config: ContentfulConfig }>
+  | UIRequest<'get-text-nodes', { scope?: ScanScope }>
+  | UIRequest<'load-records', { config: ContentfulConfig; contentType: string }>
+  | UIRequest<'load-multiple-records', { config: ContentfulConfig; contentTypes: string[]; operationId?: string }>
+  | UIRequest<'apply-record-to-nodes', { mappings: FieldMapping[]; recordFields: Record<string, unknown> }>
+  | UIRequest<'load-locales', { config: ContentfulConfig }>
+  | UIRequest<'apply-locale', { config: ContentfulConfig; locale: string; scope?: ScanScope }>
+  | UIRequest<'get-translatable-nodes', { config: ContentfulConfig; scope?: ScanScope }>
+  | UIRequest<'get-all-contentful-items', { config: ContentfulConfig; operationId?: string }>
+  | UIRequest<'save-contentful-item', { config: ContentfulConfig; item: ContentfulSaveItem; scope?: ScanScope }>
+  | UIRequest<'save-contentful-items', { config: ContentfulConfig; items: unknown[]; batchId?: string; operationId?: string; scope?: ScanScope }>
+  | UIRequest<'link-nodes', { nodeIds: string[]; key: string; entryId: string }>
+  | UIRequest<'unlink-nodes', { nodeIds: string[] }>
+  | UIRequest<'get-pull-changes', { config: ContentfulConfig; scope?: ScanScope; operationId?: string }>
+  | UIRequest<'apply-pull-changes', { changes: PullChange[] }>
+  | UIRequest<'generate-keys', { config: ContentfulConfig; scope?: ScanScope; operationId?: string }>
+  | UIRequest<'find-text-matches', { config: ContentfulConfig; scope?: ScanScope; operationId?: string }>
+  | UIRequest<'rename-nodes', { renames: NodeRename[] }>
+  | UIRequest<'sync-variables' | 'push-variables', { config: ContentfulConfig; operationId?: string }>
+  | UIRequest<'publish-contentful-item' | 'unpublish-contentful-item', { config: ContentfulConfig; entryId: string }>
+  | UIRequest<'publish-contentful-items' | 'unpublish-contentful-items', { config: ContentfulConfig; entryIds: string[] }>
+  | UIRequest<'get-window-size-state'>
+  | UIRequest<'resize-window', { width: number; height: number; isCompact?: boolean }>
+  | UIRequest<'update-multiple-nodes', { nodeIds: string[]; newText: string }>
+  | UIRequest<'select-node', { nodeId: string }>
+  | UIRequest<'get-key-usages', { config: ContentfulConfig; key: string }>
+  | UIRequest<'cycle-key-usage', { config: ContentfulConfig; key: string; step?: number }>
+  | UIRequest<'cancel-operation', { operationId?: string }>
+  | UIRequest<'cancel'>;
+
+/**
+ * Type of a UI request
+ */
+export type UIMessageType = UIMessage['type'];
+
+/**
+ * Outcome of a settings preflight check
+ */
+export interface PreflightResult {
+  success: boolean;
+  message?: string;
+  error?: string;
+}
+
+/**
+ * A plugin message of the given type; responses to a UI request carry its requestId
+ */
+type PluginResponse<T extends string, Fields = unknown> = { type: T; requestId?: string } & Fields;
+
+/**
+ * Message sent from plugin backend to UI
+ */
+export type PluginMessage =
+  | PluginResponse<'config-loaded', { config: ContentfulConfig; version: string }>
+  | PluginResponse<'node-count', { count: number }>
+  | PluginResponse<'config-saved', { config: ContentfulConfig }>
+  | PluginResponse<'config-save-failed', { message: string }>
+  | PluginResponse<'profiles-loaded', { profiles: ProfileSummary[]; activeProfileId: string; config: ContentfulConfig }>
+  | PluginResponse<'preflight-locales-result' | 'preflight-content-result', { result: PreflightResult }>
+  | PluginResponse<'content-types-loaded', { contentTypes: unknown[] }>
+  | PluginResponse<'text-nodes-loaded', { nodes: TextNodeInfo[]; scope: ScanScope }>
+  | PluginResponse<'translatable-nodes-loaded', { nodes: TextNodeInfo[]; scope: ScanScope; lint: KeyLintIssue[] }>
+  | PluginResponse<'records-loaded', { records: unknown[] }>
+  | PluginResponse<'multiple-records-loaded', { operationId: string; recordsByContentType: Record<string, ContentfulRecord[]> }>
+  | PluginResponse<'record-applied', { overflows: TextOverflow[] }>
+  | PluginResponse<'locales-loaded', { locales: Locale[] }>
+  | PluginResponse<'locale-applied', { locale: string; scope: ScanScope } & ApplyTranslationsResult>
+  | PluginResponse<'contentful-items-loaded', { operationId: string; items: Record<string, ContentfulItem>; locale: string }>
+  | PluginResponse<'operation-cancelled', { operationId: string; batchId?: string }>
+  | PluginResponse<'item-saved', { key: string } & ContentfulSaveResult>
+  | PluginResponse<'item-save-progress', { batchId: string; key: string; completed: number; total: number } & ContentfulSaveResult>
+  | PluginResponse<'items-saved', { batchId: string; operationId: string; invalid: number } & ContentfulBatchSaveResult>
+  | PluginResponse<'nodes-linked', { key: string; entryId: string } & NodeBindingResult>
+  | PluginResponse<'nodes-unlinked', NodeBindingResult>
+  | PluginResponse<'pull-changes-loaded', { operationId: string; changes: PullChange[]; locale: string; scope: ScanScope }>
+  | PluginResponse<'pull-applied', PullApplyResult>
+  | PluginResponse<'key-proposals-loaded', { operationId: string; scope: ScanScope } & KeyGenerationResult>
+  | PluginResponse<'text-matches-loaded', { operationId: string; scope: ScanScope; matches: TextMatch[] }>
+  | PluginResponse<'nodes-renamed', NodeBindingResult>
+  | PluginResponse<'variables-synced', { operationId: string } & VariableSyncResult>
+  | PluginResponse<'variables-pushed', { operationId: string } & VariablePushResult>
+  | PluginResponse<'item-published' | 'item-unpublished', ContentfulPublishResult>
+  | PluginResponse<'items-published' | 'items-unpublished', { succeeded: number; failed: number; results: ContentfulPublishResult[] }>
+  | PluginResponse<'window-size-state', { isCompact: boolean }>
+  | PluginResponse<'update-multiple-nodes-result', { success: boolean; count?: number; errors?: string[]; error?: string }>
+  | PluginResponse<'text-node-selected', { nodeName: string; nodeText: string; key: string }>
+  | PluginResponse<'key-usages-loaded', { key: string; usages: KeyUsage[] }>
+  | PluginResponse<'key-usage-selected', { key: string; index: number; total: number; usage: KeyUsage }>
+  | PluginResponse<'error', { message: string }>
+  | PluginResponse<'invalid-message', { message: string; messageType?: string }>;
+
+/**
+ * Sends a handler's responses back to the UI
  */
-export interface UIMessage {
-  type: string;
-  config?: ContentfulConfig;
-  locale?: string;
-  contentType?: string;
-  contentTypes?: string[];
-  mappings?: FieldMapping[];
-  recordFields?: Record<string, unknown>;
-  item?: unknown;
-  items?: unknown[];
-  nodeId?: string;
-  nodeIds?: string[];
-  newText?: string;
-  width?: number;
-  height?: number;
-  isCompact?: boolean;
-  [key: string]: unknown;
+export type Responder = (message: PluginMessage) => void;
+
+/**
+ * Minimal abort signal shape, satisfied by the standard AbortSignal
+ * (declared here because the plugin typings don't include the DOM lib)
+ */
+export interface AbortSignalLike {
+  readonly aborted: boolean;
+  addEventListener(type: 'abort', listener: () => void): void;
+  removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+/**
+ * Minimal abort controller shape, satisfied by the standard AbortController
+ */
+export interface AbortControllerLike {
+  readonly signal: AbortSignalLike;
+  abort(): void;
 }
 
 /**
@@ -30,4 +167,34 @@ export interface FetchOptions {
   headers?: Record<string, string>;
   method?: string;
   body?: string;
+  signal?: AbortSignalLike;
+}
+
+/**
+ * A cancellable long-running operation started from the UI
+ */
+export interface Operation {
+  id: string;
+  signal: AbortSignalLike;
+}
+
+/**
+ * Retry behavior for network requests
+ * maxTotalDelayMs caps the time spent waiting between attempts
+ */
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  maxTotalDelayMs?: number;
+}
+
+/**
+ * A failed attempt that was retried
+ */
+export interface RetryAttempt {
+  attempt: number;
+  status?: number;
+  error?: string;
+  delayMs: number;
 }
@@ -1,4 +1,17 @@
-import { validateConfig, mergeWithDefaults, loadConfigFromStorage, saveConfigToStorage } from '../../src/services/config.service';
+import {
+  validateConfig,
+  mergeWithDefaults,
+  loadConfigFromStorage,
+  saveConfigToStorage,
+  loadDocumentConfig,
+  saveDocumentConfig,
+  loadProfiles,
+  createProfile,
+  renameProfile,
+  duplicateProfile,
+  deleteProfile,
+  switchProfile
+} from '../../src/services/config.service';
 import { defaultConfig } from '../../src/constants';
 import { ContentfulConfig } from '../../src/types';
 
@@ -10,7 +23,8 @@ describe('ConfigService', () => {
     CONTENT_TYPE: 'translation',
     KEY_FIELD: 'key',
     VALUE_FIELD: 'value',
-    NODE_NAME_PATTERN: '^jams_'
+    NODE_NAME_PATTERN: '^jams_',
+    TARGET_LOCALE: ''
   };
 
   describe('validateConfig', () => {
@@ -70,6 +84,30 @@ describe('ConfigService', () => {
         expect(validateConfig(config)).toBeNull();
       });
     });
+
+    it('should accept a pattern with a key group', () => {
+      const config = { ...validConfig, NODE_NAME_PATTERN: '^jams_(?<key>[\\w.]+)' };
+      expect(validateConfig(config)).toBeNull();
+    });
+
+    it('should return error for named groups without a key group', () => {
+      const config = { ...validConfig, NODE_NAME_PATTERN: '^jams_(?<name>\\w+)' };
+      expect(validateConfig(config)).toBe('NODE_NAME_PATTERN must name its key group (?<key>...)');
+    });
+
+    it('should return error for unknown key template tokens and casings', () => {
+      expect(validateConfig({ ...validConfig, KEY_TEMPLATE: 'jams_{screen}.{layer}' }))
+        .toContain('Unknown KEY_TEMPLATE token {screen}');
+      expect(validateConfig({ ...validConfig, KEY_CASE: 'upper' })).toBe('KEY_CASE must be one of snake, camel, kebab, pascal');
+      expect(validateConfig({ ...validConfig, KEY_TEMPLATE: 'jams_{section}.{text}', KEY_CASE: 'kebab' })).toBeNull();
+    });
+
+    it('should return error for invalid key lint settings', () => {
+      expect(validateConfig({ ...validConfig, KEY_LINT_RULES: 'lowercase:fatal' }))
+        .toBe('KEY_LINT_RULES severity of lowercase must be one of off, warning, error');
+      expect(validateConfig({ ...validConfig, KEY_MAX_LENGTH: 'long' })).toBe('KEY_MAX_LENGTH must be a positive whole number');
+      expect(validateConfig({ ...validConfig, KEY_LINT_RULES: 'namespace:error', KEY_MAX_LENGTH: '40' })).toBeNull();
+    });
   });
 
   describe('mergeWithDefaults', () => {
@@ -149,4 +187,207 @@ describe('ConfigService', () => {
       await expect(saveConfigToStorage(validConfig)).rejects.toThrow('Failed to save config to storage');
     });
   });
+
+  describe('document settings', () => {
+    const setDocumentData = (value: string) => {
+      figma.root.setSharedPluginData('translatorwiz', 'config', value);
+    };
+
+    it('should store settings in the document without the CMA token', () => {
+      saveDocumentConfig(validConfig);
+
+      const stored = JSON.parse(figma.root.getSharedPluginData('translatorwiz', 'config'));
+      expect(stored.CMA_TOKEN).toBeUndefined();
+      expect(stored.SPACE_ID).toBe('space123');
+      expect(stored.NODE_NAME_PATTERN).toBe('^jams_');
+    });
+
+    it('should ignore a token and unknown fields in document data', () => {
+      setDocumentData(JSON.stringify({ CONTENT_TYPE: 'copy', CMA_TOKEN: 'leaked', OTHER: 'x' }));
+
+      expect(loadDocumentConfig()).toEqual({ CONTENT_TYPE: 'copy' });
+    });
+
+    it('should share the optional key settings through the document', () => {
+      setDocumentData(JSON.stringify({ KEY_TEMPLATE: '{frame}.{layer}', KEY_LINT_RULES: 'lowercase:error' }));
+
+      expect(loadDocumentConfig()).toEqual({ KEY_TEMPLATE: '{frame}.{layer}', KEY_LINT_RULES: 'lowercase:error' });
+    });
+
+    it('should ignore malformed document data', () => {
+      setDocumentData('{not json');
+
+      expect(loadDocumentConfig()).toBeNull();
+    });
+
+    it('should merge document settings with the local token', async () => {
+      setDocumentData(JSON.stringify({ SPACE_ID: 'space123', CONTENT_TYPE: 'copy', NODE_NAME_PATTERN: '^t_' }));
+      (figma.clientStorage.getAsync as jest.Mock).mockResolvedValueOnce(validConfig);
+
+      const result = await loadConfigFromStorage();
+
+      expect(result).toEqual({ ...validConfig, CONTENT_TYPE: 'copy', NODE_NAME_PATTERN: '^t_' });
+    });
+
+    it('should use the token of a profile for the document space', async () => {
+      setDocumentData(JSON.stringify({ SPACE_ID: 'other-space' }));
+      const otherProfile = { id: 'p2', name: 'Other', config: { ...validConfig, SPACE_ID: 'other-space', CMA_TOKEN: 'other-token' } };
+      (figma.clientStorage.getAsync as jest.Mock).mockImplementation(async (key: string) =>
+        key === 'translatorwiz_config'
+          ? validConfig
+          : { activeProfileId: 'p1', profiles: [{ id: 'p1', name: 'Default', config: validConfig }, otherProfile] }
+      );
+
+      const result = await loadConfigFromStorage();
+
+      expect(result.SPACE_ID).toBe('other-space');
+      expect(result.CMA_TOKEN).toBe('other-token');
+    });
+
+    it('should write the document settings when saving config', async () => {
+      await saveConfigToStorage(validConfig);
+
+      expect(loadDocumentConfig()).toEqual({ ...validConfig, CMA_TOKEN: undefined });
+    });
+
+    it('should save nothing when the document can\'t be written', async () => {
+      const setData = jest.spyOn(figma.root, 'setSharedPluginData').mockImplementationOnce(() => {
+        throw new Error('Cannot edit a view-only file');
+      });
+
+      await expect(saveConfigToStorage(validConfig)).rejects.toThrow('Failed to save settings to the document');
+      expect(figma.clientStorage.setAsync).not.toHaveBeenCalled();
+      setData.mockRestore();
+    });
+
+    it('should put the document settings back when client storage can\'t be written', async () => {
+      saveDocumentConfig(validConfig);
+      (figma.clientStorage.setAsync as jest.Mock).mockRejectedValueOnce(new Error('Quota exceeded'));
+
+      await expect(saveConfigToStorage({ ...validConfig, SPACE_ID: 'other-space' })).rejects.toThrow('Failed to save config to storage');
+      expect(loadDocumentConfig()).toEqual({ ...validConfig, CMA_TOKEN: undefined });
+    });
+  });
+
+  describe('connection profiles', () => {
+    let storage: Map<string, unknown>;
+
+    beforeEach(() => {
+      // Back client storage with a map so profile changes persist between calls
+      storage = new Map();
+      (figma.clientStorage.getAsync as jest.Mock).mockImplementation(async (key: string) => storage.get(key));
+      (figma.clientStorage.setAsync as jest.Mock).mockImplementation(async (key: string, value: unknown) => {
+        storage.set(key, JSON.parse(JSON.stringify(value)));
+      });
+    });
+
+    it('should create a default profile from the current config on first load', async () => {
+      storage.set('translatorwiz_config', validConfig);
+
+      const store = await loadProfiles();
+
+      expect(store.profiles).toHaveLength(1);
+      expect(store.profiles[0].name).toBe('Default');
+      expect(store.profiles[0].config).toEqual(validConfig);
+      expect(store.activeProfileId).toBe(store.profiles[0].id);
+      expect(storage.get('translatorwiz_profiles')).toEqual(store);
+    });
+
+    it('should create a profile, make it active and store its config', async () => {
+      await loadProfiles();
+      const staging = { ...validConfig, ENVIRONMENT: 'staging' };
+
+      const store = await createProfile('  Staging ', staging);
+
+      const created = store.profiles[1];
+      expect(created.name).toBe('Staging');
+      expect(store.activeProfileId).toBe(created.id);
+      expect(storage.get('translatorwiz_config')).toEqual(staging);
+    });
+
+    it('should reject a profile that fails validation', async () => {
+      await expect(createProfile('Broken', { ...validConfig, CMA_TOKEN: '' }))
+        .rejects.toThrow('Profile "Broken": CMA_TOKEN is required');
+    });
+
+    it('should reject empty and duplicate profile names', async () => {
+      storage.set('translatorwiz_config', validConfig);
+      const store = await loadProfiles();
+
+      await expect(createProfile(' ', validConfig)).rejects.toThrow('Profile name is required');
+      await expect(createProfile('default', validConfig)).rejects.toThrow('A profile named "default" already exists');
+      // Renaming a profile to its own name is allowed
+      await expect(renameProfile(store.profiles[0].id, 'DEFAULT')).resolves.toBeDefined();
+    });
+
+    it('should rename a profile', async () => {
+      const { profiles } = await loadProfiles();
+
+      const store = await renameProfile(profiles[0].id, 'Production');
+
+      expect(store.profiles[0].name).toBe('Production');
+    });
+
+    it('should duplicate a profile without switching to it', async () => {
+      storage.set('translatorwiz_config', validConfig);
+      const { profiles } = await loadProfiles();
+
+      const store = await duplicateProfile(profiles[0].id);
+
+      expect(store.profiles).toHaveLength(2);
+      expect(store.profiles[1].name).toBe('Default (copy)');
+      expect(store.profiles[1].config).toEqual(validConfig);
+      expect(store.activeProfileId).toBe(profiles[0].id);
+    });
+
+    it('should switch profiles and store the selected config', async () => {
+      storage.set('translatorwiz_config', validConfig);
+      const { profiles } = await loadProfiles();
+      await createProfile('Staging', { ...validConfig, ENVIRONMENT: 'staging' });
+
+      const store = await switchProfile(profiles[0].id);
+
+      expect(store.activeProfileId).toBe(profiles[0].id);
+      expect(storage.get('translatorwiz_config')).toEqual(validConfig);
+    });
+
+    it('should leave the document settings alone when switching profiles', async () => {
+      await saveConfigToStorage(validConfig);
+      await createProfile('Staging', { ...validConfig, ENVIRONMENT: 'staging' });
+
+      expect(loadDocumentConfig()).toEqual(expect.objectContaining({ ENVIRONMENT: 'master' }));
+    });
+
+    it('should switch to a remaining profile when the active one is deleted', async () => {
+      storage.set('translatorwiz_config', validConfig);
+      const { profiles } = await loadProfiles();
+      const created = await createProfile('Staging', { ...validConfig, ENVIRONMENT: 'staging' });
+
+      const store = await deleteProfile(created.activeProfileId);
+
+      expect(store.profiles).toHaveLength(1);
+      expect(store.activeProfileId).toBe(profiles[0].id);
+      expect(storage.get('translatorwiz_config')).toEqual(validConfig);
+    });
+
+    it('should not delete the only profile', async () => {
+      const { profiles } = await loadProfiles();
+
+      await expect(deleteProfile(profiles[0].id)).rejects.toThrow('Cannot delete the only profile');
+    });
+
+    it('should save config changes to the active profile', async () => {
+      await loadProfiles();
+      const updated = { ...validConfig, CONTENT_TYPE: 'copy' };
+
+      await saveConfigToStorage(updated);
+
+      const store = await loadProfiles();
+      expect(store.profiles[0].config).toEqual(updated);
+    });
+
+    it('should report unknown profiles', async () => {
+      await expect(switchProfile('missing')).rejects.toThrow('Profile "missing" not found');
+    });
+  });
 });
@@ -1,12 +1,19 @@
 import {
   fetchLocales,
   fetchTranslations,
+  getFallbackChain,
   fetchContentTypes,
   fetchRecords,
   validateContentType,
   fetchAllContentfulItems,
-  saveItemToContentful
+  saveItemToContentful,
+  saveItemsToContentful,
+  resolveLocaleContext,
+  publishEntry,
+  unpublishEntry,
+  setEntriesPublished
 } from '../../src/services/contentful.service';
+import { createAbortController } from '../../src/services/network.service';
 import { ContentfulConfig } from '../../src/types';
 
 describe('ContentfulService', () => {
@@ -17,7 +24,8 @@ describe('ContentfulService', () => {
     CONTENT_TYPE: 'translation',
     KEY_FIELD: 'key',
     VALUE_FIELD: 'value',
-    NODE_NAME_PATTERN: '^jams_'
+    NODE_NAME_PATTERN: '^jams_',
+    TARGET_LOCALE: ''
   };
 
   // Helper to create mock responses
@@ -33,8 +41,8 @@ describe('ContentfulService', () => {
     it('should fetch and return locales successfully', async () => {
       const mockLocales = {
         items: [
-          { code: 'en-US', name: 'English (US)' },
-          { code: 'de-DE', name: 'German' }
+          { code: 'en-US', name: 'English (US)', default: true, fallbackCode: null },
+          { code: 'de-DE', name: 'German', default: false, fallbackCode: 'en-US' }
         ]
       };
       (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse(mockLocales));
@@ -42,8 +50,8 @@ describe('ContentfulService', () => {
       const result = await fetchLocales(validConfig);
 
       expect(result).toHaveLength(2);
-      expect(result[0]).toEqual({ code: 'en-US', name: 'English (US)' });
-      expect(result[1]).toEqual({ code: 'de-DE', name: 'German' });
+      expect(result[0]).toEqual({ code: 'en-US', name: 'English (US)', default: true, fallbackCode: null });
+      expect(result[1]).toEqual({ code: 'de-DE', name: 'German', default: false, fallbackCode: 'en-US' });
       expect(global.fetch).toHaveBeenCalledWith(
         expect.stringContaining('/spaces/space123/environments/master/locales'),
         expect.objectContaining({
@@ -114,6 +122,38 @@ describe('ContentfulService', () => {
     });
   });
 
+  describe('resolveLocaleContext', () => {
+    const mockLocales = {
+      items: [
+        { code: 'en-GB', name: 'English (UK)', default: true, fallbackCode: null },
+        { code: 'de-DE', name: 'German', default: false, fallbackCode: 'en-GB' }
+      ]
+    };
+
+    it('should use the space default locale when no target is configured', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse(mockLocales));
+
+      const result = await resolveLocaleContext(validConfig);
+
+      expect(result).toEqual({ target: 'en-GB', default: 'en-GB' });
+    });
+
+    it('should use the configured target locale', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse(mockLocales));
+
+      const result = await resolveLocaleContext({ ...validConfig, TARGET_LOCALE: 'de-DE' });
+
+      expect(result).toEqual({ target: 'de-DE', default: 'en-GB' });
+    });
+
+    it('should throw when the configured target locale does not exist', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse(mockLocales));
+
+      await expect(resolveLocaleContext({ ...validConfig, TARGET_LOCALE: 'fr-FR' }))
+        .rejects.toThrow('Locale "fr-FR" not found in this environment');
+    });
+  });
+
   describe('fetchTranslations', () => {
     it('should fetch and return translations successfully', async () => {
       const mockTranslations = {
@@ -124,22 +164,18 @@ describe('ContentfulService', () => {
       };
       (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse(mockTranslations));
 
-      const result = await fetchTranslations(validConfig, 'en-US');
+      const result = await fetchTranslations(validConfig, { target: 'en-US', default: 'en-US' });
 
       expect(result).toHaveLength(2);
       expect(result[0]).toEqual({ key: 'hello', value: 'Hello World' });
-      expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining('locale=en-US'),
-        expect.anything()
-      );
     });
 
     it('should throw on empty locale', async () => {
-      await expect(fetchTranslations(validConfig, '')).rejects.toThrow('Invalid locale');
+      await expect(fetchTranslations(validConfig, { target: '', default: 'en-US' })).rejects.toThrow('Invalid locale');
     });
 
     it('should throw on whitespace-only locale', async () => {
-      await expect(fetchTranslations(validConfig, '   ')).rejects.toThrow('Invalid locale');
+      await expect(fetchTranslations(validConfig, { target: '   ', default: 'en-US' })).rejects.toThrow('Invalid locale');
     });
 
     it('should filter out translations with empty keys or values', async () => {
@@ -153,33 +189,103 @@ describe('ContentfulService', () => {
       };
       (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse(mockTranslations));
 
-      const result = await fetchTranslations(validConfig, 'en-US');
+      const result = await fetchTranslations(validConfig, { target: 'en-US', default: 'en-US' });
 
       expect(result).toHaveLength(1);
       expect(result[0].key).toBe('valid');
     });
 
+    it('should read localized field values for the requested locale', async () => {
+      const mockTranslations = {
+        items: [
+          { fields: { key: { 'en-US': 'hello' }, value: { 'en-US': 'Hello', 'de-DE': 'Hallo' } } },
+          { fields: { key: { 'en-US': 'bye' }, value: { 'en-US': 'Goodbye' } } }
+        ]
+      };
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse(mockTranslations));
+
+      const result = await fetchTranslations(validConfig, { target: 'de-DE', default: 'en-US' });
+
+      // Key falls back to its only locale, value without a German translation is dropped
+      expect(result).toEqual([{ key: 'hello', value: 'Hallo' }]);
+    });
+
+    it('should load every page of translations', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(createMockResponse({ total: 1001, items: [{ fields: { key: 'hello', value: 'Hello' } }] }))
+        .mockResolvedValueOnce(createMockResponse({ total: 1001, items: [{ fields: { key: 'bye', value: 'Goodbye' } }] }));
+
+      const result = await fetchTranslations(validConfig, { target: 'en-US', default: 'en-US' });
+
+      expect(result.map(t => t.key)).toEqual(['hello', 'bye']);
+      expect(global.fetch).toHaveBeenLastCalledWith(expect.stringContaining('&limit=1000&skip=1000'), expect.anything());
+    });
+
+    it('should fail rather than apply a partial set when a page fails', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(createMockResponse({ total: 1001, items: [{ fields: { key: 'hello', value: 'Hello' } }] }))
+        .mockResolvedValueOnce(createMockResponse({}, false, 403));
+
+      await expect(fetchTranslations(validConfig, { target: 'en-US', default: 'en-US' })).rejects.toThrow('Failed to load translations: Invalid API credentials');
+    });
+
     it('should throw on 401 unauthorized', async () => {
       (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse({}, false, 401));
 
-      await expect(fetchTranslations(validConfig, 'en-US')).rejects.toThrow('Invalid API credentials');
+      await expect(fetchTranslations(validConfig, { target: 'en-US', default: 'en-US' })).rejects.toThrow('Invalid API credentials');
     });
 
     it('should throw on 404 content type not found', async () => {
       (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse({}, false, 404));
 
-      await expect(fetchTranslations(validConfig, 'en-US')).rejects.toThrow('Content type not found');
+      await expect(fetchTranslations(validConfig, { target: 'en-US', default: 'en-US' })).rejects.toThrow('Content type not found');
     });
 
-    it('should URL encode locale parameter', async () => {
-      (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse({ items: [] }));
+    it('should read keys in the default locale, like every other read', async () => {
+      const mockTranslations = {
+        items: [{ fields: { key: { 'en-GB': 'hello', 'de-DE': 'hallo' }, value: { 'en-GB': 'Hello', 'de-DE': 'Hallo' } } }]
+      };
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse(mockTranslations));
 
-      await fetchTranslations(validConfig, 'en-US');
+      const result = await fetchTranslations(validConfig, { target: 'de-DE', default: 'en-GB' });
 
-      expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining('locale=en-US'),
-        expect.anything()
-      );
+      expect(result).toEqual([{ key: 'hello', value: 'Hallo' }]);
+      // A locale parameter would leave out the default locale
+      expect((global.fetch as jest.Mock).mock.calls[0][0]).not.toContain('locale=');
+    });
+
+    it('should fill untranslated values from the given fallbacks', async () => {
+      const mockTranslations = {
+        items: [
+          { fields: { key: { 'en-US': 'hello' }, value: { 'en-US': 'Hello', 'de-DE': 'Hallo', 'de-CH': 'Grüezi' } } },
+          { fields: { key: { 'en-US': 'bye' }, value: { 'en-US': 'Goodbye', 'de-DE': 'Tschüss' } } },
+          { fields: { key: { 'en-US': 'new' }, value: { 'en-US': 'New' } } }
+        ]
+      };
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse(mockTranslations));
+
+      const result = await fetchTranslations(validConfig, { target: 'de-CH', default: 'en-US' }, ['de-DE']);
+
+      expect(result).toEqual([{ key: 'hello', value: 'Grüezi' }, { key: 'bye', value: 'Tschüss' }]);
+    });
+  });
+
+  describe('getFallbackChain', () => {
+    const locales = [
+      { code: 'en-US', name: 'English', default: true, fallbackCode: null },
+      { code: 'de-DE', name: 'German', default: false, fallbackCode: 'en-US' },
+      { code: 'de-CH', name: 'Swiss German', default: false, fallbackCode: 'de-DE' },
+      { code: 'fr-FR', name: 'French', default: false, fallbackCode: 'fr-CA' },
+      { code: 'fr-CA', name: 'Canadian French', default: false, fallbackCode: 'fr-FR' }
+    ];
+
+    it('should follow fallbacks nearest first', () => {
+      expect(getFallbackChain(locales, 'de-CH')).toEqual(['de-DE', 'en-US']);
+      expect(getFallbackChain(locales, 'en-US')).toEqual([]);
+    });
+
+    it('should stop at a cycle', () => {
+      expect(getFallbackChain(locales, 'fr-FR')).toEqual(['fr-CA']);
     });
   });
 
@@ -336,8 +442,8 @@ describe('ContentfulService', () => {
 
       const result = await fetchAllContentfulItems(validConfig);
 
-      expect(result['hello']).toEqual({ value: 'Hello World', id: 'entry1' });
-      expect(result['bye']).toEqual({ value: 'Goodbye', id: 'entry2' });
+      expect(result['hello']).toEqual({ value: 'Hello World', id: 'entry1', version: 0, status: 'draft' });
+      expect(result['bye']).toEqual({ value: 'Goodbye', id: 'entry2', version: 0, status: 'draft' });
     });
 
     it('should skip archived entries', async () => {
@@ -401,12 +507,25 @@ describe('ContentfulService', () => {
     });
 
     it('should throw on HTTP error', async () => {
-      (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse({}, false, 500));
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse({}, false, 404));
 
       await expect(fetchAllContentfulItems(validConfig)).rejects.toThrow('Failed to fetch Contentful items');
     });
 
-    it('should use first available locale when en-US is not present', async () => {
+    it('should throw once retries for server errors are exhausted', async () => {
+      jest.useFakeTimers();
+      (global.fetch as jest.Mock).mockResolvedValue(createMockResponse({}, false, 500));
+
+      const assertion = expect(fetchAllContentfulItems(validConfig)).rejects.toThrow('HTTP 500');
+      await jest.runAllTimersAsync();
+      await assertion;
+
+      // Initial request plus the default 3 retries
+      expect(global.fetch).toHaveBeenCalledTimes(4);
+      jest.useRealTimers();
+    });
+
+    it('should read keys in the default locale and values in the target locale', async () => {
       const mockResponse = {
         total: 1,
         items: [
@@ -414,16 +533,58 @@ describe('ContentfulService', () => {
             sys: { id: 'entry1' },
             fields: {
               key: { 'de-DE': 'german_key' },
-              value: { 'de-DE': 'German Value' }
+              value: { 'de-DE': 'German Value', 'en-GB': 'English Value' }
             }
           }
         ]
       };
       (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse(mockResponse));
 
+      const result = await fetchAllContentfulItems(validConfig, { target: 'en-GB', default: 'de-DE' });
+
+      expect(result['german_key']).toMatchObject({ value: 'English Value', id: 'entry1' });
+    });
+
+    it('should return an empty value when the target locale is not translated', async () => {
+      const mockResponse = {
+        total: 1,
+        items: [
+          {
+            sys: { id: 'entry1' },
+            fields: {
+              key: { 'en-US': 'hello' },
+              value: { 'en-US': 'Hello' }
+            }
+          }
+        ]
+      };
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse(mockResponse));
+
+      const result = await fetchAllContentfulItems(validConfig, { target: 'de-DE', default: 'en-US' });
+
+      expect(result['hello']).toMatchObject({ value: '', id: 'entry1' });
+    });
+
+    it('should report the publish state of each entry', async () => {
+      const entry = (id: string, sys: Record<string, unknown>) => ({
+        sys: { id, ...sys },
+        fields: { key: { 'en-US': id }, value: { 'en-US': `${id} value` } }
+      });
+      const mockResponse = {
+        total: 3,
+        items: [
+          entry('draft', { version: 3 }),
+          entry('published', { version: 5, publishedVersion: 4 }),
+          entry('changed', { version: 7, publishedVersion: 4 })
+        ]
+      };
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse(mockResponse));
+
       const result = await fetchAllContentfulItems(validConfig);
 
-      expect(result['german_key']).toEqual({ value: 'German Value', id: 'entry1' });
+      expect(result['draft']).toMatchObject({ status: 'draft', version: 3 });
+      expect(result['published']).toMatchObject({ status: 'published', version: 5 });
+      expect(result['changed']).toMatchObject({ status: 'changed', version: 7 });
     });
   });
 
@@ -442,6 +603,7 @@ describe('ContentfulService', () => {
       });
 
       expect(result.success).toBe(true);
+      expect(result).toMatchObject({ entryId: 'new-entry', version: 1 });
       // Should only call create, NOT publish
       expect(global.fetch).toHaveBeenCalledTimes(1);
 
@@ -479,6 +641,7 @@ describe('ContentfulService', () => {
       });
 
       expect(result.success).toBe(true);
+      expect(result.version).toBe(6);
       // Should only call get + update, NOT publish
       expect(global.fetch).toHaveBeenCalledTimes(2);
 
@@ -501,6 +664,134 @@ describe('ContentfulService', () => {
       );
     });
 
+    it('should write the key in the default locale and the value in the target locale', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(createMockResponse({ sys: { id: 'new-entry', version: 1 } }));
+
+      await saveItemToContentful(validConfig, {
+        key: 'new_key',
+        value: 'Neuer Wert'
+      }, { target: 'de-DE', default: 'en-GB' });
+
+      const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      expect(body.fields).toEqual({
+        key: { 'en-GB': 'new_key' },
+        value: { 'de-DE': 'Neuer Wert' }
+      });
+    });
+
+    it('should keep other locales of the value field when updating', async () => {
+      const getResponse = {
+        sys: { id: 'existing-entry', version: 5 },
+        fields: {
+          key: { 'en-US': 'existing_key' },
+          value: { 'en-US': 'Old Value', 'de-DE': 'Alter Wert', 'ja-JP': '古い値' }
+        }
+      };
+
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(createMockResponse(getResponse))
+        .mockResolvedValueOnce(createMockResponse({ sys: { id: 'existing-entry', version: 6 } }));
+
+      await saveItemToContentful(validConfig, {
+        key: 'existing_key',
+        value: 'New Value',
+        isUpdate: true,
+        entryId: 'existing-entry'
+      });
+
+      const body = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body);
+      expect(body.fields.value).toEqual({ 'en-US': 'New Value', 'de-DE': 'Alter Wert', 'ja-JP': '古い値' });
+      expect(body.fields.key).toEqual({ 'en-US': 'existing_key' });
+    });
+
+    it('should keep other fields of the entry when updating', async () => {
+      const getResponse = {
+        sys: { id: 'existing-entry', version: 5 },
+        fields: {
+          key: { 'en-US': 'existing_key' },
+          value: { 'en-US': 'Old Value' },
+          description: { 'en-US': 'Shown on the checkout page' },
+          maxLength: { 'en-US': 40 }
+        }
+      };
+
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(createMockResponse(getResponse))
+        .mockResolvedValueOnce(createMockResponse({ sys: { id: 'existing-entry', version: 6 } }));
+
+      await saveItemToContentful(validConfig, {
+        key: 'existing_key',
+        value: 'Neuer Wert',
+        isUpdate: true,
+        entryId: 'existing-entry'
+      }, { target: 'de-DE', default: 'en-US' });
+
+      const body = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body);
+      expect(body.fields).toEqual({
+        key: { 'en-US': 'existing_key' },
+        value: { 'en-US': 'Old Value', 'de-DE': 'Neuer Wert' },
+        description: { 'en-US': 'Shown on the checkout page' },
+        maxLength: { 'en-US': 40 }
+      });
+    });
+
+    it('should refuse to overwrite an entry that changed since it was loaded', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse({
+        sys: { id: 'existing-entry', version: 7 },
+        fields: { value: { 'en-US': 'Edited by a copywriter' } }
+      }));
+
+      const result = await saveItemToContentful(validConfig, {
+        key: 'existing_key',
+        value: 'New Value',
+        isUpdate: true,
+        entryId: 'existing-entry',
+        version: 5
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.conflict).toEqual({ version: 7, value: 'Edited by a copywriter' });
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report a version conflict when the update is rejected with 409', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(createMockResponse({ sys: { id: 'existing-entry', version: 5 } }))
+        .mockResolvedValueOnce(createMockResponse({ message: 'VersionMismatch' }, false, 409))
+        .mockResolvedValueOnce(createMockResponse({
+          sys: { id: 'existing-entry', version: 6 },
+          fields: { value: { 'en-US': 'Saved meanwhile' } }
+        }));
+
+      const result = await saveItemToContentful(validConfig, {
+        key: 'existing_key',
+        value: 'New Value',
+        isUpdate: true,
+        entryId: 'existing-entry',
+        version: 5
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.conflict).toEqual({ version: 6, value: 'Saved meanwhile' });
+      expect(result.errorDetails?.status).toBe(409);
+    });
+
+    it('should include retry attempts in the error details', async () => {
+      jest.useFakeTimers();
+      (global.fetch as jest.Mock).mockResolvedValue(createMockResponse({ message: 'Too many requests' }, false, 429));
+
+      const resultPromise = saveItemToContentful(validConfig, { key: 'new_key', value: 'New Value' });
+      await jest.runAllTimersAsync();
+      const result = await resultPromise;
+
+      expect(result.success).toBe(false);
+      expect(result.errorDetails?.status).toBe(429);
+      expect(result.errorDetails?.retries).toHaveLength(3);
+      expect(result.errorDetails?.retries?.[0]).toMatchObject({ attempt: 1, status: 429 });
+      jest.useRealTimers();
+    });
+
     it('should return error when create fails', async () => {
       (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse({ error: 'Bad Request' }, false, 400));
 
@@ -534,7 +825,7 @@ describe('ContentfulService', () => {
 
       (global.fetch as jest.Mock)
         .mockResolvedValueOnce(createMockResponse(getResponse)) // get succeeds
-        .mockResolvedValueOnce(createMockResponse({}, false, 409)); // update fails (conflict)
+        .mockResolvedValueOnce(createMockResponse({}, false, 422)); // update fails (validation)
 
       const result = await saveItemToContentful(validConfig, {
         key: 'existing_key',
@@ -561,4 +852,174 @@ describe('ContentfulService', () => {
       expect(result.errorDetails?.exception).toBe('Error');
     });
   });
+
+  describe('saveItemsToContentful', () => {
+    const locales = { target: 'en-US', default: 'en-US' };
+
+    it('should summarize created, updated and failed items', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url: string, options: { method?: string; body?: string }) => {
+        if (options.method === 'POST') {
+          const body = JSON.parse(options.body || '{}');
+          return Promise.resolve(body.fields.key['en-US'] === 'bad_key'
+            ? createMockResponse({ message: 'Invalid' }, false, 422)
+            : createMockResponse({ sys: { id: 'new' } }));
+        }
+        if (options.method === 'PUT') {
+          return Promise.resolve(createMockResponse({ sys: { id: 'entry1', version: 3 } }));
+        }
+        return Promise.resolve(createMockResponse({ sys: { id: 'entry1', version: 2 }, fields: {} }));
+      });
+
+      const result = await saveItemsToContentful(validConfig, [
+        { key: 'new_key', value: 'New' },
+        { key: 'existing_key', value: 'Updated', isUpdate: true, entryId: 'entry1' },
+        { key: 'bad_key', value: 'Bad' }
+      ], locales);
+
+      expect(result.created).toEqual(['new_key']);
+      expect(result.updated).toEqual(['existing_key']);
+      expect(result.failed).toHaveLength(1);
+      expect(result.failed[0].key).toBe('bad_key');
+      expect(result.failed[0].errorDetails?.status).toBe(422);
+      expect(result.cancelled).toEqual([]);
+    });
+
+    it('should never run more requests than the concurrency limit', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      (global.fetch as jest.Mock).mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return createMockResponse({ sys: { id: 'new' } });
+      });
+
+      const items = Array(7).fill(null).map((_, i) => ({ key: `key${i}`, value: `value${i}` }));
+      const result = await saveItemsToContentful(validConfig, items, locales, { concurrency: 3 });
+
+      expect(result.created).toHaveLength(7);
+      expect(maxInFlight).toBe(3);
+    });
+
+    it('should report progress for every item', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(createMockResponse({ sys: { id: 'new' } }));
+      const onProgress = jest.fn();
+
+      await saveItemsToContentful(validConfig, [
+        { key: 'a', value: 'A' },
+        { key: 'b', value: 'B' }
+      ], locales, { onProgress });
+
+      expect(onProgress).toHaveBeenCalledTimes(2);
+      expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ completed: 2, total: 2 }));
+    });
+
+    it('should stop starting new items once cancelled', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(createMockResponse({ sys: { id: 'new' } }));
+      const controller = createAbortController();
+
+      const result = await saveItemsToContentful(validConfig, [
+        { key: 'a', value: 'A' },
+        { key: 'b', value: 'B' },
+        { key: 'c', value: 'C' }
+      ], locales, {
+        concurrency: 1,
+        signal: controller.signal,
+        onProgress: () => controller.abort()
+      });
+
+      expect(result.created).toEqual(['a']);
+      expect(result.cancelled).toEqual(['b', 'c']);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort requests in flight and report their items as cancelled', async () => {
+      (global.fetch as jest.Mock).mockImplementation(() => new Promise(() => {}));
+      const controller = createAbortController();
+      const onProgress = jest.fn();
+
+      const resultPromise = saveItemsToContentful(validConfig, [
+        { key: 'a', value: 'A' },
+        { key: 'b', value: 'B' },
+        { key: 'c', value: 'C' }
+      ], locales, { concurrency: 2, signal: controller.signal, onProgress });
+      controller.abort();
+      const result = await resultPromise;
+
+      expect(result.created).toEqual([]);
+      expect(result.failed).toEqual([]);
+      expect(result.cancelled).toEqual(['a', 'b', 'c']);
+      expect(onProgress).not.toHaveBeenCalled();
+      expect((global.fetch as jest.Mock).mock.calls[0][1].signal.aborted).toBe(true);
+    });
+  });
+
+  describe('publishEntry', () => {
+    it('should publish the current version of an entry', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(createMockResponse({ sys: { id: 'entry1', version: 8 } }))
+        .mockResolvedValueOnce(createMockResponse({ sys: { id: 'entry1', version: 9, publishedVersion: 8 } }));
+
+      const result = await publishEntry(validConfig, 'entry1');
+
+      expect(result).toEqual({ success: true, entryId: 'entry1' });
+      expect(global.fetch).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining('/entries/entry1/published'),
+        expect.objectContaining({
+          method: 'PUT',
+          headers: expect.objectContaining({ 'X-Contentful-Version': '8' })
+        })
+      );
+    });
+
+    it('should return error when publishing fails', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(createMockResponse({ sys: { id: 'entry1', version: 8 } }))
+        .mockResolvedValueOnce(createMockResponse({ message: 'Validation error' }, false, 422));
+
+      const result = await publishEntry(validConfig, 'entry1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Publish failed (422)');
+      expect(result.errorDetails?.operation).toBe('publish');
+    });
+
+    it('should return error when the entry cannot be fetched', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse({}, false, 404));
+
+      const result = await publishEntry(validConfig, 'missing');
+
+      expect(result.success).toBe(false);
+      expect(result.errorDetails?.operation).toBe('fetch');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('unpublishEntry', () => {
+    it('should delete the published version of an entry', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse({ sys: { id: 'entry1' } }));
+
+      const result = await unpublishEntry(validConfig, 'entry1');
+
+      expect(result.success).toBe(true);
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('/entries/entry1/published'),
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+  });
+
+  describe('setEntriesPublished', () => {
+    it('should return one result per entry and continue after failures', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(createMockResponse({}, false, 400))
+        .mockResolvedValueOnce(createMockResponse({ sys: { id: 'entry2' } }));
+
+      const results = await setEntriesPublished(validConfig, ['entry1', 'entry2'], false);
+
+      expect(results.map(r => [r.entryId, r.success])).toEqual([['entry1', false], ['entry2', true]]);
+    });
+  });
 });
@@ -0,0 +1,175 @@
+import { applyKeyCase, renderKeyTemplate, generateKeyProposals, getNameForKey, findTextMatches, findReuseSuggestions, getTextSimilarity } from '../../src/services/key.service';
+import { ContentfulConfig, UntaggedNodeInfo } from '../../src/types';
+
+describe('KeyService', () => {
+  const validConfig: ContentfulConfig = {
+    SPACE_ID: 'space123',
+    ENVIRONMENT: 'master',
+    CMA_TOKEN: 'token123',
+    CONTENT_TYPE: 'translation',
+    KEY_FIELD: 'key',
+    VALUE_FIELD: 'value',
+    NODE_NAME_PATTERN: '^jams_',
+    TARGET_LOCALE: ''
+  };
+
+  const node = (id: string, name: string, characters: string, frameName?: string): UntaggedNodeInfo => ({
+    id,
+    name,
+    characters,
+    pageName: 'Home',
+    frameName
+  });
+
+  const item = (value: string) => ({ value, id: 'entry-1', version: 1, status: 'draft' as const });
+
+  describe('applyKeyCase', () => {
+    it('should write names in each casing', () => {
+      expect(applyKeyCase('Button label', 'snake')).toBe('button_label');
+      expect(applyKeyCase('Button label', 'camel')).toBe('buttonLabel');
+      expect(applyKeyCase('Button label', 'kebab')).toBe('button-label');
+      expect(applyKeyCase('Button label', 'pascal')).toBe('ButtonLabel');
+    });
+
+    it('should split camel case and drop accents and punctuation', () => {
+      expect(applyKeyCase('checkoutPage / Café!', 'snake')).toBe('checkout_page_cafe');
+    });
+  });
+
+  describe('renderKeyTemplate', () => {
+    it('should fill the default template from the frame and layer names', () => {
+      expect(renderKeyTemplate(node('1', 'Button label', 'Buy', 'Checkout Page'), validConfig)).toBe('jams_checkout_page.button_label');
+    });
+
+    it('should drop empty tokens with their separator', () => {
+      expect(renderKeyTemplate(node('1', 'Title', 'Hello'), validConfig)).toBe('jams_title');
+      expect(renderKeyTemplate(node('1', 'Title', 'Hello'), { ...validConfig, KEY_TEMPLATE: '{section}.{frame}.{text}' })).toBe('hello');
+    });
+  });
+
+  describe('generateKeyProposals', () => {
+    it('should number keys taken by different text and share keys with the same text', () => {
+      const nodes = [
+        node('1', 'Title', 'Welcome', 'Home'),
+        node('2', 'Title', 'Welcome', 'Home'),
+        node('3', 'Title', 'Goodbye', 'Home'),
+        node('4', 'Button', 'Buy', 'Home')
+      ];
+
+      const result = generateKeyProposals(nodes, validConfig, {
+        'jams_home.button': item('Buy now')
+      });
+
+      expect(result.proposals.map(p => [p.nodeId, p.key, p.collision])).toEqual([
+        ['1', 'jams_home.title', undefined],
+        ['2', 'jams_home.title', undefined],
+        ['3', 'jams_home.title_2', 'proposal'],
+        ['4', 'jams_home.button_2', 'contentful']
+      ]);
+    });
+
+    it('should mark keys that reuse a Contentful entry with the same text', () => {
+      const result = generateKeyProposals([node('1', 'Title', 'Welcome', 'Home')], validConfig, {
+        'jams_home.title': item('Welcome')
+      });
+
+      expect(result.proposals[0]).toMatchObject({ key: 'jams_home.title', existing: true });
+      expect(result.proposals[0].collision).toBeUndefined();
+    });
+
+    it('should avoid keys tagged nodes already use for other text', () => {
+      const result = generateKeyProposals([node('1', 'Title', 'Welcome', 'Home')], validConfig, {}, new Map([['jams_home.title', 'Hi']]));
+
+      expect(result.proposals[0]).toMatchObject({ name: 'jams_home.title_2', collision: 'document' });
+    });
+
+    it('should resolve the key through the pattern key group', () => {
+      const config = { ...validConfig, NODE_NAME_PATTERN: '^jams_(?<key>[\\w.]+)' };
+
+      const result = generateKeyProposals([node('1', 'Title', 'Welcome', 'Home')], config, {});
+
+      expect(result.proposals[0]).toMatchObject({ name: 'jams_home.title', key: 'home.title' });
+    });
+
+    it('should skip nodes whose generated name does not match the pattern', () => {
+      const result = generateKeyProposals([node('1', 'Title', 'Welcome')], { ...validConfig, KEY_TEMPLATE: '{layer}' }, {});
+
+      expect(result.proposals).toEqual([]);
+      expect(result.skipped).toEqual(['Title: "title" doesn\'t match NODE_NAME_PATTERN']);
+    });
+  });
+
+  describe('getNameForKey', () => {
+    it('should use the key itself when it matches the pattern', () => {
+      expect(getNameForKey('jams_cancel', validConfig)).toBe('jams_cancel');
+    });
+
+    it('should prefix the key when the pattern has a key group', () => {
+      expect(getNameForKey('common.cancel', { ...validConfig, NODE_NAME_PATTERN: '^jams_(?<key>[\\w.]+)' })).toBe('jams_common.cancel');
+    });
+
+    it('should give up when no name resolves to the key', () => {
+      expect(getNameForKey('common cancel', { ...validConfig, NODE_NAME_PATTERN: '^jams_(?<key>[\\w.]+)' })).toBeUndefined();
+    });
+  });
+
+  describe('findTextMatches', () => {
+    const textNode = (id: string, characters: string) => ({ id, name: 'Label', characters, pageName: 'Home' });
+
+    it('should match untagged text to entries with the same normalized value', () => {
+      const matches = findTextMatches([textNode('1', ' Save\u00A0 changes '), textNode('2', 'Something new')], validConfig, {
+        'jams_save': { ...item('Save changes'), id: 'entry-save' }
+      });
+
+      expect(matches).toEqual([{
+        nodeId: '1',
+        nodeName: 'Label',
+        characters: ' Save\u00A0 changes ',
+        pageName: 'Home',
+        key: 'jams_save',
+        entryId: 'entry-save',
+        name: 'jams_save',
+        otherKeys: undefined
+      }]);
+    });
+
+    it('should propose the first key when several entries share the text', () => {
+      const matches = findTextMatches([textNode('1', 'Cancel')], validConfig, {
+        'jams_modal.cancel': item('Cancel'),
+        'jams_cancel': item('Cancel')
+      });
+
+      expect(matches[0]).toMatchObject({ key: 'jams_cancel', otherKeys: ['jams_modal.cancel'] });
+    });
+  });
+
+  describe('findReuseSuggestions', () => {
+    const items = {
+      'jams_save': item('Save changes'),
+      'jams_save_upper': item('SAVE CHANGES'),
+      'jams_save_typo': item('Save change'),
+      'jams_cancel': item('Cancel')
+    };
+
+    it('should list exact, normalized and similar values in that order', () => {
+      const suggestions = findReuseSuggestions('Save changes', validConfig, items, 'jams_dialog.save');
+
+      expect(suggestions.map(s => [s.key, s.match])).toEqual([
+        ['jams_save', 'exact'],
+        ['jams_save_upper', 'normalized'],
+        ['jams_save_typo', 'similar']
+      ]);
+      expect(suggestions[2].similarity).toBeCloseTo(11 / 12);
+    });
+
+    it('should not suggest the key being created or unrelated values', () => {
+      expect(findReuseSuggestions('Cancel', validConfig, items, 'jams_cancel')).toEqual([]);
+      expect(findReuseSuggestions('Delete account', validConfig, items)).toEqual([]);
+    });
+
+    it('should score similarity by edit distance', () => {
+      expect(getTextSimilarity('Sign in', 'sign  in')).toBe(1);
+      expect(getTextSimilarity('abcd', 'abce')).toBe(0.75);
+    });
+  });
+});
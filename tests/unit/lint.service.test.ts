@@ -0,0 +1,85 @@
+import { parseKeyLintRules, getKeyMaxLength, lintKey, lintNodes } from '../../src/services/lint.service';
+import { ContentfulConfig, TextNodeInfo } from '../../src/types';
+
+describe('LintService', () => {
+  const validConfig: ContentfulConfig = {
+    SPACE_ID: 'space123',
+    ENVIRONMENT: 'master',
+    CMA_TOKEN: 'token123',
+    CONTENT_TYPE: 'translation',
+    KEY_FIELD: 'key',
+    VALUE_FIELD: 'value',
+    NODE_NAME_PATTERN: '^jams_',
+    TARGET_LOCALE: ''
+  };
+
+  describe('parseKeyLintRules', () => {
+    it('should apply configured severities over the defaults', () => {
+      const rules = parseKeyLintRules({ ...validConfig, KEY_LINT_RULES: 'namespace:error, lowercase:off' });
+
+      expect(rules).toEqual({
+        'lowercase': 'off',
+        'namespace': 'error',
+        'max-length': 'warning',
+        'copy-suffix': 'warning',
+        'text-conflict': 'warning'
+      });
+    });
+
+    it('should reject unknown rules and severities', () => {
+      expect(() => parseKeyLintRules({ ...validConfig, KEY_LINT_RULES: 'camel:error' }))
+        .toThrow('Unknown KEY_LINT_RULES rule "camel" - use lowercase, namespace, max-length, copy-suffix, text-conflict');
+      expect(() => parseKeyLintRules({ ...validConfig, KEY_LINT_RULES: 'lowercase:fatal' }))
+        .toThrow('KEY_LINT_RULES severity of lowercase must be one of off, warning, error');
+    });
+
+    it('should reject a max length that is not a positive whole number', () => {
+      expect(getKeyMaxLength(validConfig)).toBe(60);
+      expect(() => getKeyMaxLength({ ...validConfig, KEY_MAX_LENGTH: '-3' })).toThrow('KEY_MAX_LENGTH must be a positive whole number');
+    });
+  });
+
+  describe('lintKey', () => {
+    it('should accept a key that follows every rule', () => {
+      expect(lintKey('jams_checkout.button', { ...validConfig, KEY_LINT_RULES: 'namespace:error' })).toEqual([]);
+    });
+
+    it('should report broken rules with a suggested key', () => {
+      const issues = lintKey('Checkout/Button copy 2', { ...validConfig, KEY_LINT_RULES: 'namespace:error', KEY_MAX_LENGTH: '10' });
+
+      expect(issues.map(issue => [issue.rule, issue.severity, issue.fix])).toEqual([
+        ['lowercase', 'warning', 'checkout/button copy 2'],
+        ['namespace', 'error', 'Checkout.Button.copy.2'],
+        ['max-length', 'warning', undefined],
+        ['copy-suffix', 'warning', 'Checkout/Button']
+      ]);
+    });
+
+    it('should not treat a "copy" namespace as a suffix', () => {
+      expect(lintKey('footer.copy', validConfig)).toEqual([]);
+    });
+  });
+
+  describe('lintNodes', () => {
+    const node = (id: string, key: string, characters: string, overridden?: boolean): TextNodeInfo => ({
+      id,
+      name: key,
+      characters,
+      key,
+      component: overridden === undefined ? undefined : { role: 'instance', ownerId: 'i1', ownerName: 'Button', overridden }
+    });
+
+    it('should flag every node of a key used with different texts', () => {
+      const issues = lintNodes([node('1', 'jams_title', 'Welcome'), node('2', 'jams_title', 'Hello'), node('3', 'jams_body', 'Text')], validConfig);
+
+      expect(issues.map(issue => [issue.nodeId, issue.rule])).toEqual([['1', 'text-conflict'], ['2', 'text-conflict']]);
+      expect(issues[0].message).toBe('Key is used with 2 different texts - give the layers one text or separate keys');
+    });
+
+    it('should ignore instance overrides and whitespace differences', () => {
+      const nodes = [node('1', 'jams_title', 'Welcome'), node('2', 'jams_title', 'Welcome '), node('3', 'jams_title', 'Hi', true)];
+
+      expect(lintNodes(nodes, validConfig)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,340 @@
+import { createMessageHandler } from '../../src/handlers';
+import { validateUIMessage } from '../../src/handlers/protocol';
+import { ContentfulConfig } from '../../src/types';
+
+describe('MessageHandler', () => {
+  const validConfig: ContentfulConfig = {
+    SPACE_ID: 'space123',
+    ENVIRONMENT: 'master',
+    CMA_TOKEN: 'token123',
+    CONTENT_TYPE: 'translation',
+    KEY_FIELD: 'key',
+    VALUE_FIELD: 'value',
+    NODE_NAME_PATTERN: '^jams_',
+    TARGET_LOCALE: ''
+  };
+
+  let postMessage: jest.Mock;
+  let handleMessage: ReturnType<typeof createMessageHandler>;
+
+  beforeEach(() => {
+    postMessage = jest.fn();
+    Object.defineProperty(figma, 'ui', {
+      value: { postMessage },
+      writable: true,
+      configurable: true
+    });
+    handleMessage = createMessageHandler(jest.fn());
+  });
+
+  it('should handle rapid messages of the same type', async () => {
+    await handleMessage({ type: 'get-window-size-state', requestId: 'req-1' });
+    await handleMessage({ type: 'get-window-size-state', requestId: 'req-2' });
+    await handleMessage({ type: 'get-window-size-state' });
+
+    expect(postMessage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should echo the request ID on responses', async () => {
+    await handleMessage({ type: 'get-window-size-state', requestId: 'req-echo' });
+
+    expect(postMessage).toHaveBeenCalledWith({ type: 'window-size-state', isCompact: false, requestId: 'req-echo' });
+  });
+
+  it('should not tag responses to messages without a request ID', async () => {
+    await handleMessage({ type: 'get-window-size-state' });
+
+    expect(postMessage.mock.calls[0][0]).not.toHaveProperty('requestId');
+  });
+
+  it('should drop a request that was already received', async () => {
+    await handleMessage({ type: 'get-window-size-state', requestId: 'req-dup' });
+    await handleMessage({ type: 'get-window-size-state', requestId: 'req-dup' });
+
+    expect(postMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should route errors to the request that caused them', async () => {
+    (global.fetch as jest.Mock).mockRejectedValue(new Error('Network error'));
+
+    await handleMessage({ type: 'load-content-types', config: validConfig, requestId: 'req-error' });
+
+    expect(postMessage).toHaveBeenCalledWith({
+      type: 'error',
+      message: expect.stringContaining('Network error'),
+      requestId: 'req-error'
+    });
+  });
+
+  it('should bind pushed nodes to the saved entry and record their sync baseline', async () => {
+    const setPluginData = jest.fn();
+    (figma.getNodeByIdAsync as jest.Mock).mockResolvedValue({ id: 'node-1', type: 'TEXT', setPluginData });
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => ({
+      ok: true,
+      status: 200,
+      json: async () => url.endsWith('/locales')
+        ? { items: [{ code: 'en-US', name: 'English', default: true, fallbackCode: null }] }
+        : { sys: { id: 'entry-new', version: 1 } }
+    }));
+
+    await handleMessage({
+      type: 'save-contentful-item',
+      config: validConfig,
+      item: { key: 'jams_title', value: 'Title', nodeIds: ['node-1'] },
+      requestId: 'req-save'
+    });
+
+    expect(setPluginData).toHaveBeenCalledWith('contentfulKey', 'jams_title');
+    expect(setPluginData).toHaveBeenCalledWith('contentfulEntryId', 'entry-new');
+    expect(setPluginData).toHaveBeenCalledWith('contentfulSyncedValue', 'Title');
+    expect(setPluginData).toHaveBeenCalledWith('contentfulSyncedVersion', '1');
+    expect(postMessage).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'item-saved',
+      key: 'jams_title',
+      success: true,
+      entryId: 'entry-new'
+    }));
+  });
+
+  it('should suggest an existing key instead of creating an entry with the same text', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => ({
+      ok: true,
+      status: 200,
+      json: async () => url.endsWith('/locales')
+        ? { items: [{ code: 'en-US', name: 'English', default: true, fallbackCode: null }] }
+        : {
+          total: 1,
+          items: [{ sys: { id: 'entry-save', version: 2 }, fields: { key: { 'en-US': 'jams_save' }, value: { 'en-US': 'Save changes' } } }]
+        }
+    }));
+
+    await handleMessage({
+      type: 'save-contentful-item',
+      config: validConfig,
+      item: { key: 'jams_dialog.save', value: 'Save  changes', nodeIds: ['node-1'] }
+    });
+
+    expect(postMessage).toHaveBeenCalledWith({
+      type: 'item-saved',
+      key: 'jams_dialog.save',
+      success: false,
+      error: 'Same or similar text already exists under jams_save',
+      suggestions: [{ key: 'jams_save', entryId: 'entry-save', value: 'Save changes', match: 'normalized', similarity: 1, name: 'jams_save' }]
+    });
+    const methods = (global.fetch as jest.Mock).mock.calls.map(([, options]) => options && options.method);
+    expect(methods).not.toContain('POST');
+  });
+
+  it('should check reuse against the loaded items instead of fetching every entry again', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => ({
+      ok: true,
+      status: 200,
+      json: async () => url.endsWith('/locales')
+        ? { items: [{ code: 'en-US', name: 'English', default: true, fallbackCode: null }] }
+        : {
+          total: 1,
+          items: [{ sys: { id: 'entry-cancel', version: 1 }, fields: { key: { 'en-US': 'jams_cancel' }, value: { 'en-US': 'Cancel' } } }]
+        }
+    }));
+    const entryLoads = () => (global.fetch as jest.Mock).mock.calls.filter(([url]) => url.includes('/entries?')).length;
+
+    await handleMessage({ type: 'get-all-contentful-items', config: validConfig });
+    expect(entryLoads()).toBe(1);
+
+    await handleMessage({ type: 'save-contentful-item', config: validConfig, item: { key: 'jams_dialog.cancel', value: 'Cancel' } });
+
+    expect(entryLoads()).toBe(1);
+    expect(postMessage).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'item-saved',
+      key: 'jams_dialog.cancel',
+      error: 'Same or similar text already exists under jams_cancel'
+    }));
+  });
+
+  it('should refuse to push a key that breaks an error-level naming rule', async () => {
+    await handleMessage({
+      type: 'save-contentful-item',
+      config: { ...validConfig, KEY_LINT_RULES: 'lowercase:error' },
+      item: { key: 'jams_Title', value: 'Title' }
+    });
+
+    expect(postMessage).toHaveBeenCalledWith({
+      type: 'item-saved',
+      key: 'jams_Title',
+      success: false,
+      error: 'Key breaks naming rules: Key has uppercase letters'
+    });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to push a key whose layers have different texts when text-conflict is an error', async () => {
+    const textNode = (id: string, characters: string) =>
+      ({ id, name: 'jams_title', type: 'TEXT', characters, parent: null, getPluginData: () => '' });
+    (figma.currentPage.findAllWithCriteria as jest.Mock).mockReturnValueOnce([textNode('1', 'Title'), textNode('2', 'Heading')]);
+
+    await handleMessage({
+      type: 'save-contentful-item',
+      config: { ...validConfig, KEY_LINT_RULES: 'text-conflict:error' },
+      item: { key: 'jams_title', value: 'Title' },
+      scope: 'page'
+    });
+
+    expect(postMessage).toHaveBeenCalledWith({
+      type: 'item-saved',
+      key: 'jams_title',
+      success: false,
+      error: 'Key breaks naming rules: Key is used with 2 different texts - give the layers one text or separate keys'
+    });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should save a key listed twice in a batch only once', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async (url: string, options?: { method?: string }) => ({
+      ok: true,
+      status: 200,
+      json: async () => url.endsWith('/locales')
+        ? { items: [{ code: 'en-US', name: 'English', default: true, fallbackCode: null }] }
+        : options && options.method === 'POST' ? { sys: { id: 'entry-new', version: 1 } } : { total: 0, items: [] }
+    }));
+
+    await handleMessage({
+      type: 'save-contentful-items',
+      config: validConfig,
+      items: [{ key: 'jams_title', value: 'Title' }, { key: 'jams_title', value: 'Other title' }],
+      batchId: 'batch-dup'
+    });
+
+    const posts = (global.fetch as jest.Mock).mock.calls.filter(([, options]) => options && options.method === 'POST');
+    expect(posts).toHaveLength(1);
+    expect(postMessage).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'items-saved',
+      created: ['jams_title'],
+      failed: [{ key: 'jams_title', error: 'Key is listed more than once - only its first item was saved' }]
+    }));
+  });
+
+  it('should link and unlink nodes', async () => {
+    const setPluginData = jest.fn();
+    (figma.getNodeByIdAsync as jest.Mock).mockResolvedValue({ id: 'node-1', type: 'TEXT', setPluginData });
+
+    await handleMessage({ type: 'link-nodes', nodeIds: ['node-1'], key: 'jams_title', entryId: 'entry-1' });
+    await handleMessage({ type: 'unlink-nodes', nodeIds: ['node-1'] });
+
+    expect(postMessage).toHaveBeenCalledWith({ type: 'nodes-linked', key: 'jams_title', entryId: 'entry-1', count: 1, errors: [] });
+    expect(postMessage).toHaveBeenCalledWith({ type: 'nodes-unlinked', count: 1, errors: [] });
+    expect(setPluginData).toHaveBeenLastCalledWith('contentfulEntryId', '');
+  });
+
+  it('should cycle through the usages of a key across pages', async () => {
+    const page = { id: 'p1', name: 'Home', type: 'PAGE', parent: null, selection: [] as unknown[] };
+    const nodes = ['1', '2'].map(id => ({
+      id,
+      name: 'jams_title',
+      type: 'TEXT',
+      characters: 'Title',
+      parent: page,
+      getPluginData: () => ''
+    }));
+    Object.defineProperty(figma, 'root', {
+      value: { children: [{ ...page, findAllWithCriteria: () => nodes }] },
+      configurable: true
+    });
+    Object.defineProperty(figma, 'loadAllPagesAsync', { value: jest.fn().mockResolvedValue(undefined), configurable: true });
+    Object.defineProperty(figma, 'setCurrentPageAsync', { value: jest.fn().mockResolvedValue(undefined), configurable: true });
+    (figma.getNodeByIdAsync as jest.Mock).mockImplementation(async (id: string) => nodes.find(n => n.id === id));
+
+    const cycle = (step?: number) => handleMessage({ type: 'cycle-key-usage', config: validConfig, key: 'jams_title', step });
+    await cycle();
+    await cycle();
+    await cycle();
+    await cycle(-1);
+
+    const selected = postMessage.mock.calls.map(([msg]) => `${msg.usage.nodeId} ${msg.index + 1}/${msg.total}`);
+    expect(selected).toEqual(['1 1/2', '2 2/2', '1 1/2', '2 2/2']);
+  });
+
+  it('should report a key that no layer uses', async () => {
+    Object.defineProperty(figma, 'root', { value: { children: [] }, configurable: true });
+    Object.defineProperty(figma, 'loadAllPagesAsync', { value: jest.fn().mockResolvedValue(undefined), configurable: true });
+
+    await handleMessage({ type: 'get-key-usages', config: validConfig, key: 'jams_missing' });
+    await handleMessage({ type: 'cycle-key-usage', config: validConfig, key: 'jams_missing' });
+
+    expect(postMessage).toHaveBeenCalledWith({ type: 'key-usages-loaded', key: 'jams_missing', usages: [] });
+    expect(postMessage).toHaveBeenCalledWith({ type: 'error', message: 'No layers use "jams_missing"' });
+  });
+
+  it('should reject unknown message types with invalid-message', async () => {
+    await handleMessage({ type: 'does-not-exist', requestId: 'req-unknown' });
+
+    expect(postMessage).toHaveBeenCalledWith({
+      type: 'invalid-message',
+      message: 'Unknown message type "does-not-exist"',
+      messageType: 'does-not-exist',
+      requestId: 'req-unknown'
+    });
+  });
+
+  it('should reject messages with missing fields before dispatch', async () => {
+    await handleMessage({ type: 'load-content-types', requestId: 'req-missing' });
+
+    expect(postMessage).toHaveBeenCalledTimes(1);
+    expect(postMessage).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'invalid-message',
+      message: 'Field "config" is required for "load-content-types"'
+    }));
+  });
+
+  it('should reject messages that are not objects', async () => {
+    await handleMessage('init');
+
+    expect(postMessage).toHaveBeenCalledWith({
+      type: 'invalid-message',
+      message: 'Message must be an object with a string type',
+      messageType: undefined
+    });
+  });
+});
+
+describe('validateUIMessage', () => {
+  it('should accept messages with the required fields', () => {
+    expect(validateUIMessage({ type: 'init' })).toBeNull();
+    expect(validateUIMessage({ type: 'select-node', nodeId: '1:2', requestId: 'req-1' })).toBeNull();
+    expect(validateUIMessage({ type: 'cancel-operation' })).toBeNull();
+  });
+
+  it('should check field types', () => {
+    expect(validateUIMessage({ type: 'select-node', nodeId: 12 }))
+      .toBe('Field "nodeId" of "select-node" must be a string');
+    expect(validateUIMessage({ type: 'update-multiple-nodes', nodeIds: ['1', 2], newText: 'Hi' }))
+      .toBe('Field "nodeIds" of "update-multiple-nodes" must be an array of strings');
+    expect(validateUIMessage({ type: 'resize-window', width: 100, height: 100, isCompact: 'yes' }))
+      .toBe('Field "isCompact" of "resize-window" must be a boolean');
+  });
+
+  it('should check the shape of items and mappings', () => {
+    expect(validateUIMessage({ type: 'save-contentful-item', config: {}, item: { key: 'a' } }))
+      .toBe('Field "item" of "save-contentful-item" must be an item with string key and value');
+    expect(validateUIMessage({ type: 'save-contentful-item', config: {}, item: { key: 'a', value: 'A', isUpdate: true } }))
+      .toBe('Field "item" of "save-contentful-item" must be an item with string key and value');
+    expect(validateUIMessage({ type: 'save-contentful-items', config: {}, items: [{ key: 'a', value: 'A', entryId: null }, { key: 'b' }] }))
+      .toBe('Field "items" of "save-contentful-items" must be an array of items with string key and value');
+    expect(validateUIMessage({ type: 'apply-record-to-nodes', mappings: [{ field: 'title' }], recordFields: {} }))
+      .toBe('Field "mappings" of "apply-record-to-nodes" must be an array of field mappings');
+  });
+
+  it('should check the shape of pull changes', () => {
+    expect(validateUIMessage({ type: 'apply-pull-changes', changes: [{ nodeId: '1', key: 'a', current: 'x', incoming: 'y' }] }))
+      .toBe('Field "changes" of "apply-pull-changes" must be an array of pull changes');
+  });
+
+  it('should check the scan scope', () => {
+    expect(validateUIMessage({ type: 'get-text-nodes', scope: 'document' })).toBeNull();
+    expect(validateUIMessage({ type: 'get-translatable-nodes', config: {}, scope: 'file' }))
+      .toBe('Field "scope" of "get-translatable-nodes" must be one of selection, page, document');
+  });
+
+  it('should reject a non-string request ID', () => {
+    expect(validateUIMessage({ type: 'init', requestId: 7 })).toBe('Field "requestId" must be a string');
+  });
+});
@@ -1,4 +1,10 @@
-import { fetchWithTimeout } from '../../src/services/network.service';
+import {
+  fetchWithTimeout,
+  fetchWithRetry,
+  getRetryAttempts,
+  createAbortController,
+  isAbortError
+} from '../../src/services/network.service';
 
 describe('NetworkService', () => {
   describe('fetchWithTimeout', () => {
@@ -9,7 +15,7 @@ describe('NetworkService', () => {
       const result = await fetchWithTimeout('https://api.example.com/test');
 
       expect(result).toBe(mockResponse);
-      expect(global.fetch).toHaveBeenCalledWith('https://api.example.com/test', undefined);
+      expect(global.fetch).toHaveBeenCalledWith('https://api.example.com/test', { signal: expect.anything() });
     });
 
     it('should pass options to fetch', async () => {
@@ -24,7 +30,7 @@ describe('NetworkService', () => {
       const result = await fetchWithTimeout('https://api.example.com/test', options);
 
       expect(result).toBe(mockResponse);
-      expect(global.fetch).toHaveBeenCalledWith('https://api.example.com/test', options);
+      expect(global.fetch).toHaveBeenCalledWith('https://api.example.com/test', { ...options, signal: expect.anything() });
     });
 
     it('should timeout after specified duration', async () => {
@@ -45,6 +51,42 @@ describe('NetworkService', () => {
       jest.useRealTimers();
     });
 
+    it('should abort the underlying request on timeout', async () => {
+      jest.useFakeTimers();
+
+      (global.fetch as jest.Mock).mockImplementation(() => new Promise(() => {}));
+
+      const resultPromise = fetchWithTimeout('https://api.example.com/test', undefined, 5000);
+      jest.advanceTimersByTime(5001);
+
+      await expect(resultPromise).rejects.toThrow('Request timeout');
+      expect((global.fetch as jest.Mock).mock.calls[0][1].signal.aborted).toBe(true);
+
+      jest.useRealTimers();
+    });
+
+    it('should reject with an abort error when the caller aborts', async () => {
+      (global.fetch as jest.Mock).mockImplementation(() => new Promise(() => {}));
+      const controller = createAbortController();
+
+      const resultPromise = fetchWithTimeout('https://api.example.com/test', { signal: controller.signal });
+      controller.abort();
+
+      const error = await resultPromise.catch((e: Error) => e);
+      expect(isAbortError(error)).toBe(true);
+      expect((global.fetch as jest.Mock).mock.calls[0][1].signal.aborted).toBe(true);
+    });
+
+    it('should not start a request when the signal is already aborted', async () => {
+      const controller = createAbortController();
+      controller.abort();
+
+      await expect(
+        fetchWithTimeout('https://api.example.com/test', { signal: controller.signal })
+      ).rejects.toThrow('Request cancelled');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
     it('should use default timeout of 10 seconds', async () => {
       jest.useFakeTimers();
 
@@ -81,4 +123,176 @@ describe('NetworkService', () => {
       expect(result).toBe(mockResponse);
     });
   });
+
+  describe('fetchWithRetry', () => {
+    const createResponse = (status: number, headers: Record<string, string> = {}) => ({
+      ok: status >= 200 && status < 300,
+      status,
+      headers: { get: (name: string) => headers[name] ?? null }
+    });
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should return the first successful response without retrying', async () => {
+      const okResponse = createResponse(200);
+      (global.fetch as jest.Mock).mockResolvedValueOnce(okResponse);
+
+      const result = await fetchWithRetry('https://api.example.com/test');
+
+      expect(result).toBe(okResponse);
+      expect(getRetryAttempts(result)).toBeUndefined();
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for the rate limit reset before retrying a 429', async () => {
+      const okResponse = createResponse(200);
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(createResponse(429, { 'X-Contentful-RateLimit-Reset': '2' }))
+        .mockResolvedValueOnce(okResponse);
+
+      const resultPromise = fetchWithRetry('https://api.example.com/test', { method: 'POST' });
+
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1);
+      const result = await resultPromise;
+
+      expect(result).toBe(okResponse);
+      expect(getRetryAttempts(result)).toEqual([{ attempt: 1, status: 429, error: undefined, delayMs: 2000 }]);
+    });
+
+    it('should read the rate limit reset from Figma response headers', async () => {
+      const okResponse = createResponse(200);
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: false, status: 429, headersObject: { 'x-contentful-ratelimit-reset': '1' } })
+        .mockResolvedValueOnce(okResponse);
+
+      const resultPromise = fetchWithRetry('https://api.example.com/test');
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(await resultPromise).toBe(okResponse);
+      expect(getRetryAttempts(okResponse)).toEqual([expect.objectContaining({ delayMs: 1000 })]);
+    });
+
+    it('should retry server errors for idempotent requests', async () => {
+      const okResponse = createResponse(200);
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(createResponse(503))
+        .mockResolvedValueOnce(createResponse(502))
+        .mockResolvedValueOnce(okResponse);
+
+      const resultPromise = fetchWithRetry('https://api.example.com/test', { method: 'PUT' });
+      await jest.runAllTimersAsync();
+
+      expect(await resultPromise).toBe(okResponse);
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry server errors for non-idempotent requests', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createResponse(500));
+
+      const result = await fetchWithRetry('https://api.example.com/test', { method: 'POST' });
+
+      expect(result.status).toBe(500);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not repeat a versioned update that may have landed', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createResponse(503));
+
+      const result = await fetchWithRetry('https://api.example.com/test', {
+        method: 'PUT',
+        headers: { 'X-Contentful-Version': '3' }
+      });
+
+      expect(result.status).toBe(503);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry client errors', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createResponse(404));
+
+      const result = await fetchWithRetry('https://api.example.com/test');
+
+      expect(result.status).toBe(404);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop after the configured number of retries', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(createResponse(500));
+
+      const resultPromise = fetchWithRetry('https://api.example.com/test', undefined, 1000, { maxRetries: 2 });
+      await jest.runAllTimersAsync();
+      const result = await resultPromise;
+
+      expect(result.status).toBe(500);
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+      expect(getRetryAttempts(result)).toHaveLength(2);
+    });
+
+    it('should stop when the next wait would exceed the total delay budget', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(createResponse(429, { 'X-Contentful-RateLimit-Reset': '30' }));
+
+      const result = await fetchWithRetry('https://api.example.com/test', undefined, 1000, { maxTotalDelayMs: 10000 });
+
+      expect(result.status).toBe(429);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry network errors for GET and attach attempts to the final error', async () => {
+      (global.fetch as jest.Mock).mockRejectedValue(new Error('Network error'));
+
+      const assertion = fetchWithRetry('https://api.example.com/test', undefined, 1000, { maxRetries: 1 })
+        .catch((error: Error) => error);
+      await jest.runAllTimersAsync();
+      const error = await assertion;
+
+      expect(error).toBeInstanceOf(Error);
+      expect((error as Error).message).toBe('Network error');
+      expect(getRetryAttempts(error)).toEqual([
+        expect.objectContaining({ attempt: 1, error: 'Network error' })
+      ]);
+    });
+
+    it('should stop waiting to retry when aborted', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(createResponse(503));
+      const controller = createAbortController();
+
+      const assertion = fetchWithRetry('https://api.example.com/test', { signal: controller.signal })
+        .catch((error: Error) => error);
+      await jest.advanceTimersByTimeAsync(0);
+      controller.abort();
+      const error = await assertion;
+
+      expect(isAbortError(error)).toBe(true);
+      expect(getRetryAttempts(error)).toHaveLength(1);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should remove its abort listeners once aborted', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(createResponse(503));
+      const listeners = new Set<() => void>();
+      const signal = {
+        aborted: false,
+        addEventListener: (_type: 'abort', listener: () => void) => listeners.add(listener),
+        removeEventListener: (_type: 'abort', listener: () => void) => listeners.delete(listener)
+      };
+
+      const assertion = fetchWithRetry('https://api.example.com/test', { signal }).catch((error: Error) => error);
+      await jest.advanceTimersByTimeAsync(0);
+      signal.aborted = true;
+      listeners.forEach(listener => listener());
+      const error = await assertion;
+
+      expect(isAbortError(error)).toBe(true);
+      expect(listeners.size).toBe(0);
+    });
+  });
 });
@@ -5,7 +5,20 @@ import {
   applyTranslations,
   applyRecordToNodes,
   updateMultipleNodes,
-  selectNode
+  selectNode,
+  getNodeKey,
+  getKeyFromName,
+  bindNodes,
+  unbindNodes,
+  loadScope,
+  getKeyIndex,
+  getPullChanges,
+  applyPullChanges,
+  recordSyncBaseline,
+  getSyncBaseline,
+  getUntaggedNodes,
+  renameNodes,
+  findTextOverflow
 } from '../../src/services/node.service';
 import { ContentfulConfig } from '../../src/types';
 
@@ -17,7 +30,8 @@ describe('NodeService', () => {
     CONTENT_TYPE: 'translation',
     KEY_FIELD: 'key',
     VALUE_FIELD: 'value',
-    NODE_NAME_PATTERN: '^jams_'
+    NODE_NAME_PATTERN: '^jams_',
+    TARGET_LOCALE: ''
   };
 
   // Helper to create a mock text node
@@ -25,10 +39,12 @@ describe('NodeService', () => {
     locked?: boolean;
     hasMissingFont?: boolean;
     mixedFonts?: boolean;
+    pluginData?: Record<string, string>;
   } = {}) {
     const fontName = options.mixedFonts
       ? figma.mixed
       : { family: 'Arial', style: 'Regular' };
+    const pluginData: Record<string, string> = { ...options.pluginData };
 
     return {
       id,
@@ -38,10 +54,21 @@ describe('NodeService', () => {
       locked: options.locked || false,
       hasMissingFont: options.hasMissingFont || false,
       fontName,
-      getRangeFontName: jest.fn().mockReturnValue({ family: 'Arial', style: 'Bold' })
+      pluginData,
+      getRangeFontName: jest.fn().mockReturnValue({ family: 'Arial', style: 'Bold' }),
+      getPluginData: jest.fn((key: string) => pluginData[key] || ''),
+      setPluginData: jest.fn((key: string, value: string) => {
+        if (value) {
+          pluginData[key] = value;
+        } else {
+          delete pluginData[key];
+        }
+      })
     };
   }
 
+  const bindingData = (key: string, entryId = 'entry-1') => ({ contentfulKey: key, contentfulEntryId: entryId });
+
   describe('getTranslatableNodeCount', () => {
     it('should count nodes matching the pattern', () => {
       const node1 = createMockTextNode('1', 'jams_hello', 'Hello');
@@ -121,15 +148,368 @@ describe('NodeService', () => {
       const node1 = createMockTextNode('1', 'jams_hello', 'Hello');
       const node2 = createMockTextNode('2', 'other_text', 'Other');
 
-      (figma.currentPage.findAll as jest.Mock).mockImplementation((filter: (n: { type: string; name: string }) => boolean) => {
-        return [node1, node2].filter(n => filter(n));
-      });
+      (figma.currentPage.findAllWithCriteria as jest.Mock).mockReturnValue([node1, node2]);
 
       const result = getTranslatableNodes(validConfig);
 
       expect(result).toHaveLength(1);
       expect(result[0].name).toBe('jams_hello');
     });
+
+    it('should include bound nodes under their bound key', () => {
+      const renamed = createMockTextNode('1', 'Renamed layer', 'Hello', { pluginData: bindingData('jams_hello') });
+      const named = createMockTextNode('2', 'jams_world', 'World');
+
+      (figma.currentPage.findAllWithCriteria as jest.Mock).mockReturnValue([renamed, named]);
+
+      const result = getTranslatableNodes(validConfig);
+
+      expect(result).toEqual([
+        { id: '1', name: 'Renamed layer', characters: 'Hello', key: 'jams_hello', entryId: 'entry-1', bound: true },
+        { id: '2', name: 'jams_world', characters: 'World', key: 'jams_world', entryId: undefined, bound: false }
+      ]);
+    });
+  });
+
+  describe('scan scope', () => {
+    function createMockPage(id: string, name: string, nodes: unknown[]) {
+      return { id, name, findAllWithCriteria: jest.fn().mockReturnValue(nodes) };
+    }
+
+    it('should scan selected text layers and the text inside selected frames', () => {
+      const selectedText = createMockTextNode('1', 'jams_title', 'Title');
+      const inFrame = createMockTextNode('2', 'jams_body', 'Body');
+      const frame = { id: 'f1', type: 'FRAME', findAllWithCriteria: jest.fn().mockReturnValue([inFrame, selectedText]) };
+      figma.currentPage.selection = [selectedText, frame] as unknown as SceneNode[];
+
+      const result = getTranslatableNodes(validConfig, 'selection');
+
+      expect(result.map(n => n.id)).toEqual(['1', '2']);
+      expect(figma.currentPage.findAllWithCriteria).not.toHaveBeenCalled();
+    });
+
+    it('should scan every page and report the page of each node', () => {
+      const home = createMockPage('p1', 'Home', [createMockTextNode('1', 'jams_title', 'Title')]);
+      const checkout = createMockPage('p2', 'Checkout', [createMockTextNode('2', 'jams_pay', 'Pay')]);
+      Object.defineProperty(figma, 'root', { value: { children: [home, checkout] }, configurable: true });
+
+      const result = getTranslatableNodes(validConfig, 'document');
+
+      expect(result.map(n => [n.key, n.pageName])).toEqual([['jams_title', 'Home'], ['jams_pay', 'Checkout']]);
+      expect(getTranslatableNodeCount(validConfig, 'document')).toBe(2);
+    });
+
+    it('should load all pages before a document scan', async () => {
+      const loadAllPagesAsync = jest.fn().mockResolvedValue(undefined);
+      Object.defineProperty(figma, 'loadAllPagesAsync', { value: loadAllPagesAsync, configurable: true });
+
+      await loadScope('page');
+      expect(loadAllPagesAsync).not.toHaveBeenCalled();
+
+      await loadScope('document');
+      expect(loadAllPagesAsync).toHaveBeenCalled();
+    });
+
+    it('should name the scope when nothing is found to translate', async () => {
+      await expect(applyTranslations([], validConfig, 'selection'))
+        .rejects.toThrow('No translatable text nodes found in the selection');
+    });
+  });
+
+  describe('getKeyIndex', () => {
+    it('should list every usage of a key with its page and top-level frame', () => {
+      const home = { id: 'p1', name: 'Home', type: 'PAGE', parent: null };
+      const checkout = { id: 'p2', name: 'Checkout', type: 'PAGE', parent: null };
+      const frame = { id: 'f1', name: 'Header', type: 'FRAME', parent: home };
+      const group = { id: 'g1', name: 'Group', type: 'GROUP', parent: frame };
+      const inGroup = { ...createMockTextNode('1', 'jams_title', 'Title'), parent: group };
+      const onPage = { ...createMockTextNode('2', 'jams_title', 'Title'), parent: checkout };
+      const other = { ...createMockTextNode('3', 'jams_pay', 'Pay'), parent: checkout };
+      Object.defineProperty(figma, 'root', {
+        value: {
+          children: [
+            { ...home, findAllWithCriteria: jest.fn().mockReturnValue([inGroup]) },
+            { ...checkout, findAllWithCriteria: jest.fn().mockReturnValue([onPage, other]) }
+          ]
+        },
+        configurable: true
+      });
+
+      const index = getKeyIndex(validConfig);
+
+      expect(index.get('jams_title')).toEqual([
+        { nodeId: '1', nodeName: 'jams_title', characters: 'Title', pageId: 'p1', pageName: 'Home', frameId: 'f1', frameName: 'Header' },
+        { nodeId: '2', nodeName: 'jams_title', characters: 'Title', pageId: 'p2', pageName: 'Checkout', frameId: undefined, frameName: undefined }
+      ]);
+      expect(index.get('jams_pay')).toHaveLength(1);
+    });
+  });
+
+  describe('text overflow', () => {
+    // A fixed-size text box whose full text is 44px tall at its width
+    function createSizedTextNode(options: { textAutoResize: string; textTruncation: string }) {
+      const probe = {
+        width: 100,
+        height: 20,
+        textTruncation: options.textTruncation,
+        maxLines: 2 as number | null,
+        remove: jest.fn(),
+        set textAutoResize(mode: string) {
+          probe.height = 44;
+        }
+      };
+      return {
+        node: { ...createMockTextNode('1', 'jams_title', 'A much longer translation'), ...options, width: 100, height: 20, clone: () => probe },
+        probe
+      };
+    }
+
+    it('should report text cut off by truncation', () => {
+      const { node, probe } = createSizedTextNode({ textAutoResize: 'HEIGHT', textTruncation: 'ENDING' });
+
+      expect(findTextOverflow(node as unknown as TextNode)).toEqual({
+        nodeId: '1',
+        nodeName: 'jams_title',
+        kind: 'truncated',
+        horizontal: 0,
+        vertical: 24
+      });
+      expect(probe.textTruncation).toBe('DISABLED');
+      expect(probe.remove).toHaveBeenCalled();
+    });
+
+    it('should report text spilling out of a fixed-size box when applying translations', async () => {
+      const { node } = createSizedTextNode({ textAutoResize: 'NONE', textTruncation: 'DISABLED' });
+      (figma.currentPage.findAllWithCriteria as jest.Mock).mockReturnValue([node]);
+
+      const result = await applyTranslations([{ key: 'jams_title', value: 'Ein viel längerer Text' }], validConfig);
+
+      expect(result.overflows).toEqual([{ nodeId: '1', nodeName: 'jams_title', kind: 'box', horizontal: 0, vertical: 24 }]);
+    });
+
+    it('should load fonts and report overflow for a fixed-size box whose text was already correct', async () => {
+      const { node, probe } = createSizedTextNode({ textAutoResize: 'NONE', textTruncation: 'DISABLED' });
+      // Figma refuses layout changes on text whose fonts aren't loaded
+      let fontsLoaded = false;
+      (figma.loadFontAsync as jest.Mock).mockImplementation(async () => { fontsLoaded = true; });
+      node.clone = () => {
+        if (!fontsLoaded) throw new Error('Cannot write to node with unloaded font');
+        return probe;
+      };
+      (figma.currentPage.findAllWithCriteria as jest.Mock).mockReturnValue([node]);
+
+      const result = await applyTranslations([{ key: 'jams_title', value: 'A much longer translation' }], validConfig);
+
+      expect(result.overflows).toEqual([{ nodeId: '1', nodeName: 'jams_title', kind: 'box', horizontal: 0, vertical: 24 }]);
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should report text that cannot be measured as an error', async () => {
+      const { node } = createSizedTextNode({ textAutoResize: 'NONE', textTruncation: 'DISABLED' });
+      node.clone = () => { throw new Error('Cannot clone'); };
+      (figma.currentPage.findAllWithCriteria as jest.Mock).mockReturnValue([node]);
+
+      const result = await applyTranslations([{ key: 'jams_title', value: 'A much longer translation' }], validConfig);
+
+      expect(result.overflows).toEqual([]);
+      expect(result.errors).toEqual(['jams_title: Could not measure text - Cannot clone']);
+    });
+
+    it('should report a text box reaching past the padding of a fixed auto layout frame', () => {
+      const button = {
+        type: 'FRAME',
+        name: 'Button',
+        layoutMode: 'HORIZONTAL',
+        primaryAxisSizingMode: 'FIXED',
+        counterAxisSizingMode: 'AUTO',
+        paddingTop: 8,
+        paddingRight: 8,
+        paddingBottom: 8,
+        paddingLeft: 8,
+        absoluteBoundingBox: { x: 0, y: 0, width: 120, height: 36 }
+      };
+      const node = {
+        ...createMockTextNode('1', 'jams_cta', 'Jetzt kostenlos registrieren'),
+        textAutoResize: 'WIDTH_AND_HEIGHT',
+        textTruncation: 'DISABLED',
+        parent: button,
+        absoluteBoundingBox: { x: 8, y: 8, width: 132, height: 20 }
+      };
+
+      expect(findTextOverflow(node as unknown as TextNode)).toEqual({
+        nodeId: '1',
+        nodeName: 'jams_cta',
+        kind: 'container',
+        horizontal: 28,
+        vertical: 0,
+        containerName: 'Button'
+      });
+    });
+  });
+
+  describe('untagged nodes', () => {
+    it('should list untagged nodes with their section, frame and parent', () => {
+      const page = { id: 'p1', name: 'Home', type: 'PAGE', parent: null };
+      const section = { id: 's1', name: 'Onboarding', type: 'SECTION', parent: page };
+      const frame = { id: 'f1', name: 'Welcome', type: 'FRAME', parent: section };
+      const group = { id: 'g1', name: 'Header', type: 'GROUP', parent: frame };
+      const untagged = { ...createMockTextNode('1', 'Title', 'Hello'), parent: group };
+      const tagged = { ...createMockTextNode('2', 'jams_body', 'Body'), parent: frame };
+      Object.defineProperty(figma, 'currentPage', {
+        value: { ...page, selection: [], findAllWithCriteria: jest.fn().mockReturnValue([untagged, tagged]) },
+        configurable: true
+      });
+
+      expect(getUntaggedNodes(validConfig)).toEqual([{
+        id: '1',
+        name: 'Title',
+        characters: 'Hello',
+        pageName: 'Home',
+        sectionName: 'Onboarding',
+        frameName: 'Welcome',
+        parentName: 'Header'
+      }]);
+    });
+
+    it('should rename layers', async () => {
+      const node = createMockTextNode('1', 'Title', 'Hello');
+      (figma.getNodeByIdAsync as jest.Mock).mockImplementation(async (id: string) => (id === '1' ? node : null));
+
+      const result = await renameNodes([{ nodeId: '1', name: 'jams_home.title' }, { nodeId: '2', name: 'jams_x' }]);
+
+      expect(result).toEqual({ count: 1, errors: ['Node 2: Not found or not a text node'] });
+      expect(node.name).toBe('jams_home.title');
+    });
+  });
+
+  describe('components', () => {
+    function createComponentText(id: string, parent: unknown, characters: string, property?: string) {
+      return {
+        ...createMockTextNode(id, 'jams_label', characters),
+        parent,
+        componentPropertyReferences: property ? { characters: property } : null
+      };
+    }
+
+    it('should tell main component text apart from overridden instance text', () => {
+      const set = { id: 's1', name: 'Button', type: 'COMPONENT_SET', parent: null };
+      const variant = { id: 'c1', name: 'Size=Large', type: 'COMPONENT', parent: set };
+      const instance = {
+        id: 'i1',
+        name: 'Button',
+        type: 'INSTANCE',
+        parent: null,
+        overrides: [{ id: 'I1;2', overriddenFields: ['characters'] }]
+      };
+      const mainText = createComponentText('2', variant, 'Buy', 'Label#1:0');
+      const overridden = createComponentText('I1;2', instance, 'Buy now', 'Label#1:0');
+      const plain = createMockTextNode('3', 'jams_label', 'Buy');
+      (figma.currentPage.findAllWithCriteria as jest.Mock).mockReturnValue([mainText, overridden, plain]);
+
+      const result = getTranslatableNodes(validConfig);
+
+      expect(result.map(n => n.component)).toEqual([
+        { role: 'main', ownerId: 's1', ownerName: 'Button', propertyName: 'Label#1:0', overridden: false },
+        { role: 'instance', ownerId: 'i1', ownerName: 'Button', propertyName: 'Label#1:0', overridden: true },
+        undefined
+      ]);
+    });
+
+    it('should write property-bound text through the component property', async () => {
+      const component = { id: 'c1', name: 'Button', type: 'COMPONENT', parent: null, editComponentProperty: jest.fn() };
+      const instance = { id: 'i1', name: 'Button', type: 'INSTANCE', parent: null, overrides: [], setProperties: jest.fn() };
+      const mainText = createComponentText('2', component, 'Buy', 'Label#1:0');
+      const instanceText = createComponentText('I1;2', instance, 'Buy', 'Label#1:0');
+      (figma.currentPage.findAllWithCriteria as jest.Mock).mockReturnValue([instanceText, mainText]);
+
+      const result = await applyTranslations([{ key: 'jams_label', value: 'Kaufen' }], validConfig);
+
+      expect(result.updated).toBe(2);
+      expect(component.editComponentProperty).toHaveBeenCalledWith('Label#1:0', { defaultValue: 'Kaufen' });
+      expect(instance.setProperties).toHaveBeenCalledWith({ 'Label#1:0': 'Kaufen' });
+      expect(mainText.characters).toBe('Buy');
+    });
+
+    it('should not override instance text that already shows the translation', async () => {
+      const instance = { id: 'i1', name: 'Card', type: 'INSTANCE', parent: null, overrides: [], setProperties: jest.fn() };
+      const instanceText = createComponentText('I1;2', instance, 'Kaufen');
+      (figma.currentPage.findAllWithCriteria as jest.Mock).mockReturnValue([instanceText]);
+
+      const result = await applyTranslations([{ key: 'jams_label', value: 'Kaufen' }], validConfig);
+
+      expect(result.updated).toBe(1);
+      expect(figma.loadFontAsync).not.toHaveBeenCalled();
+      expect(instance.setProperties).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getKeyFromName', () => {
+    const keyPattern = new RegExp('^jams_(?<key>[\\w.]+)');
+
+    it('should use the key group as the key', () => {
+      expect(getKeyFromName('jams_title copy 2', keyPattern)).toBe('title');
+      expect(getKeyFromName('jams_home.hero', keyPattern)).toBe('home.hero');
+    });
+
+    it('should use the whole name when the pattern has no key group', () => {
+      expect(getKeyFromName('jams_title copy 2', /^jams_/)).toBe('jams_title copy 2');
+    });
+
+    it('should return null when the name does not match', () => {
+      expect(getKeyFromName('Title', keyPattern)).toBeNull();
+    });
+  });
+
+  describe('node bindings', () => {
+    const pattern = /^jams_/;
+
+    it('should prefer the bound key over the layer name', () => {
+      const node = createMockTextNode('1', 'jams_old', 'Hello', { pluginData: bindingData('jams_new') });
+
+      expect(getNodeKey(node as unknown as BaseNode, pattern)).toBe('jams_new');
+    });
+
+    it('should return null for unbound nodes that do not match the pattern', () => {
+      const node = createMockTextNode('1', 'Title', 'Hello');
+
+      expect(getNodeKey(node as unknown as BaseNode, pattern)).toBeNull();
+    });
+
+    it('should store the key and entry ID on text nodes', async () => {
+      const node = createMockTextNode('1', 'Title', 'Hello');
+      (figma.getNodeByIdAsync as jest.Mock).mockResolvedValueOnce(node).mockResolvedValueOnce(null);
+
+      const result = await bindNodes(['1', 'missing'], { key: 'jams_title', entryId: 'entry-9' });
+
+      expect(result.count).toBe(1);
+      expect(result.errors).toEqual(['Node missing: Not found or not a text node']);
+      expect(node.pluginData).toEqual(bindingData('jams_title', 'entry-9'));
+    });
+
+    it('should remove the binding when unlinking', async () => {
+      const node = createMockTextNode('1', 'Title', 'Hello', { pluginData: bindingData('jams_title') });
+      (figma.getNodeByIdAsync as jest.Mock).mockResolvedValueOnce(node);
+
+      const result = await unbindNodes(['1']);
+
+      expect(result.count).toBe(1);
+      expect(node.pluginData).toEqual({});
+      expect(getNodeKey(node as unknown as BaseNode, pattern)).toBeNull();
+    });
+
+    it('should list the recorded sync baseline and drop it when unlinking', async () => {
+      const node = createMockTextNode('1', 'jams_title', 'Hello', { pluginData: bindingData('jams_title') });
+      (figma.getNodeByIdAsync as jest.Mock).mockResolvedValue(node);
+      (figma.currentPage.findAllWithCriteria as jest.Mock).mockReturnValue([node]);
+
+      expect(getTranslatableNodes(validConfig)[0].baseline).toBeUndefined();
+
+      await recordSyncBaseline(['1'], { value: 'Hello', version: 4 });
+      expect(getTranslatableNodes(validConfig)[0].baseline).toEqual({ value: 'Hello', version: 4 });
+
+      await unbindNodes(['1']);
+      expect(node.pluginData).toEqual({});
+    });
   });
 
   describe('applyTranslations', () => {
@@ -148,13 +528,53 @@ describe('NodeService', () => {
         { key: 'jams_world', value: 'New World' }
       ];
 
-      const count = await applyTranslations(translations, validConfig);
+      const result = await applyTranslations(translations, validConfig);
 
-      expect(count).toBe(2);
+      expect(result.updated).toBe(2);
       expect(node1.characters).toBe('New Hello');
       expect(node2.characters).toBe('New World');
     });
 
+    it('should mark nodes written for a previewed locale until their text changes', async () => {
+      const node = createMockTextNode('1', 'jams_hello', 'Hello');
+
+      (figma.currentPage.findAllWithCriteria as jest.Mock).mockReturnValue([node]);
+
+      await applyTranslations([{ key: 'jams_hello', value: 'Hallo' }], validConfig, 'page', 'de-DE');
+      expect(getTranslatableNodes(validConfig)[0].preview).toBe('de-DE');
+
+      node.characters = 'Hallo!';
+      expect(getTranslatableNodes(validConfig)[0].preview).toBeUndefined();
+
+      await applyTranslations([{ key: 'jams_hello', value: 'Hello' }], validConfig);
+      expect(node.pluginData).toEqual({});
+    });
+
+    it('should translate nodes by the key group of the pattern', async () => {
+      const node = createMockTextNode('1', 'jams_hello copy', 'Old Hello');
+
+      (figma.currentPage.findAllWithCriteria as jest.Mock).mockReturnValue([node]);
+
+      const result = await applyTranslations(
+        [{ key: 'hello', value: 'New Hello' }],
+        { ...validConfig, NODE_NAME_PATTERN: '^jams_(?<key>\\w+)' }
+      );
+
+      expect(result.updated).toBe(1);
+      expect(node.characters).toBe('New Hello');
+    });
+
+    it('should translate bound nodes by their bound key', async () => {
+      const node = createMockTextNode('1', 'Renamed layer', 'Old Hello', { pluginData: bindingData('jams_hello') });
+
+      (figma.currentPage.findAllWithCriteria as jest.Mock).mockReturnValue([node]);
+
+      const result = await applyTranslations([{ key: 'jams_hello', value: 'New Hello' }], validConfig);
+
+      expect(result.updated).toBe(1);
+      expect(node.characters).toBe('New Hello');
+    });
+
     it('should skip locked nodes', async () => {
       const node1 = createMockTextNode('1', 'jams_hello', 'Old Hello', { locked: true });
 
@@ -162,7 +582,11 @@ describe('NodeService', () => {
 
       const translations = [{ key: 'jams_hello', value: 'New Hello' }];
 
-      await expect(applyTranslations(translations, validConfig)).rejects.toThrow('All nodes skipped');
+      const result = await applyTranslations(translations, validConfig);
+
+      expect(result.updated).toBe(0);
+      expect(result.skipped).toEqual(['jams_hello: Locked']);
+      expect(node1.characters).toBe('Old Hello');
     });
 
     it('should skip nodes with missing fonts', async () => {
@@ -172,7 +596,10 @@ describe('NodeService', () => {
 
       const translations = [{ key: 'jams_hello', value: 'New Hello' }];
 
-      await expect(applyTranslations(translations, validConfig)).rejects.toThrow('Translation failed');
+      const result = await applyTranslations(translations, validConfig);
+
+      expect(result.updated).toBe(0);
+      expect(result.skipped).toEqual(['jams_hello: Missing font']);
     });
 
     it('should throw when no translatable nodes found', async () => {
@@ -185,16 +612,20 @@ describe('NodeService', () => {
       );
     });
 
-    it('should throw when no matching translations exist', async () => {
+    it('should report keys without a matching translation', async () => {
       const node1 = createMockTextNode('1', 'jams_hello', 'Old Hello');
+      const node2 = createMockTextNode('2', 'jams_hello', 'Old Hello');
+      const node3 = createMockTextNode('3', 'jams_world', 'Old World');
 
-      (figma.currentPage.findAllWithCriteria as jest.Mock).mockReturnValue([node1]);
+      (figma.currentPage.findAllWithCriteria as jest.Mock).mockReturnValue([node1, node2, node3]);
 
-      const translations = [{ key: 'jams_other', value: 'New Value' }];
+      const translations = [{ key: 'jams_world', value: 'New World' }];
 
-      await expect(applyTranslations(translations, validConfig)).rejects.toThrow(
-        'No matching translations found for text nodes'
-      );
+      const result = await applyTranslations(translations, validConfig);
+
+      expect(result.updated).toBe(1);
+      expect(result.missingKeys).toEqual(['jams_hello']);
+      expect(node1.characters).toBe('Old Hello');
     });
 
     it('should handle mixed fonts', async () => {
@@ -204,9 +635,9 @@ describe('NodeService', () => {
 
       const translations = [{ key: 'jams_hello', value: 'New Hello' }];
 
-      const count = await applyTranslations(translations, validConfig);
+      const result = await applyTranslations(translations, validConfig);
 
-      expect(count).toBe(1);
+      expect(result.updated).toBe(1);
       // loadFontAsync should be called for each character
       expect(figma.loadFontAsync).toHaveBeenCalledTimes(2);
     });
@@ -219,7 +650,62 @@ describe('NodeService', () => {
 
       const translations = [{ key: 'jams_hello', value: 'New Hello' }];
 
-      await expect(applyTranslations(translations, validConfig)).rejects.toThrow('Translation failed');
+      const result = await applyTranslations(translations, validConfig);
+
+      expect(result.updated).toBe(0);
+      expect(result.errors).toEqual(['jams_hello: Font not found']);
+    });
+  });
+
+  describe('pull', () => {
+    const item = (value: string) => ({ value, id: 'entry-1', version: 1, status: 'draft' as const });
+
+    it('should list nodes whose text differs from a translated entry', () => {
+      const changed = createMockTextNode('1', 'jams_title', 'Old title');
+      const same = createMockTextNode('2', 'jams_body', 'Body');
+      const untranslated = createMockTextNode('3', 'jams_cta', 'Buy');
+      (figma.currentPage.findAllWithCriteria as jest.Mock).mockReturnValue([changed, same, untranslated]);
+
+      const changes = getPullChanges(
+        { jams_title: item('New title'), jams_body: item('Body'), jams_cta: item('') },
+        validConfig
+      );
+
+      expect(changes).toEqual([
+        { nodeId: '1', nodeName: 'jams_title', key: 'jams_title', current: 'Old title', incoming: 'New title', version: 1, pageName: undefined }
+      ]);
+    });
+
+    it('should apply selected changes and report nodes it could not update', async () => {
+      const nodes: Record<string, ReturnType<typeof createMockTextNode>> = {
+        '1': createMockTextNode('1', 'jams_title', 'Old'),
+        '2': createMockTextNode('2', 'jams_locked', 'Old', { locked: true }),
+        '3': createMockTextNode('3', 'jams_font', 'Old', { hasMissingFont: true }),
+        '4': createMockTextNode('4', 'jams_edited', 'Edited meanwhile')
+      };
+      (figma.getNodeByIdAsync as jest.Mock).mockImplementation(async (id: string) => nodes[id] || null);
+      const change = (nodeId: string) => ({ nodeId, nodeName: `node ${nodeId}`, key: 'k', current: 'Old', incoming: 'New' });
+
+      const result = await applyPullChanges(['1', '2', '3', '4', '5'].map(change));
+
+      expect(result).toEqual({
+        updated: 1,
+        locked: ['jams_locked'],
+        missingFont: ['jams_font'],
+        skipped: ['node 5: Not found', 'jams_edited: Changed since the diff'],
+        errors: []
+      });
+      expect(nodes['1'].characters).toBe('New');
+      expect(nodes['2'].characters).toBe('Old');
+    });
+
+    it('should record the pulled entry version as the sync baseline', async () => {
+      const node = createMockTextNode('1', 'jams_title', 'Old');
+      (figma.getNodeByIdAsync as jest.Mock).mockResolvedValue(node);
+
+      await applyPullChanges([{ nodeId: '1', nodeName: 'jams_title', key: 'jams_title', current: 'Old', incoming: 'New', version: 7 }]);
+
+      expect(getSyncBaseline(node as unknown as BaseNode)).toEqual({ value: 'New', version: 7 });
     });
   });
 
@@ -363,5 +849,21 @@ describe('NodeService', () => {
       // Should not throw
       await selectNode('non-existent');
     });
+
+    it('should switch to the node\'s page before selecting it', async () => {
+      const otherPage = { id: 'p2', type: 'PAGE', parent: null, selection: [] as unknown[] };
+      const frame = { id: 'f1', type: 'FRAME', parent: otherPage };
+      const node = { ...createMockTextNode('node1', 'Text', 'Hello'), parent: frame };
+      const setCurrentPageAsync = jest.fn(async (page: unknown) => {
+        Object.defineProperty(figma, 'currentPage', { value: page, configurable: true });
+      });
+      Object.defineProperty(figma, 'setCurrentPageAsync', { value: setCurrentPageAsync, configurable: true });
+      (figma.getNodeByIdAsync as jest.Mock).mockResolvedValue(node);
+
+      expect(await selectNode('node1')).toBe(true);
+
+      expect(setCurrentPageAsync).toHaveBeenCalledWith(otherPage);
+      expect(otherPage.selection).toEqual([node]);
+    });
   });
 });
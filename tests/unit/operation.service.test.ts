@@ -0,0 +1,54 @@
+import {
+  startOperation,
+  finishOperation,
+  cancelOperation,
+  cancelAllOperations
+} from '../../src/services/operation.service';
+
+describe('OperationService', () => {
+  afterEach(() => {
+    cancelAllOperations();
+  });
+
+  it('should use the given operation ID or generate one from the prefix', () => {
+    expect(startOperation('op-1', 'load').id).toBe('op-1');
+    expect(startOperation(undefined, 'load').id).toMatch(/^load-\d+$/);
+  });
+
+  it('should abort the signal when the operation is cancelled', () => {
+    const operation = startOperation('op-1', 'load');
+
+    expect(cancelOperation('op-1')).toBe(true);
+    expect(operation.signal.aborted).toBe(true);
+    expect(cancelOperation('op-1')).toBe(false);
+  });
+
+  it('should not cancel an operation that already finished', () => {
+    const operation = startOperation('op-1', 'load');
+    finishOperation(operation);
+
+    expect(cancelOperation('op-1')).toBe(false);
+    expect(operation.signal.aborted).toBe(false);
+  });
+
+  it('should cancel the earlier operation when an ID is reused', () => {
+    const first = startOperation('op-1', 'load');
+    const second = startOperation('op-1', 'load');
+
+    expect(first.signal.aborted).toBe(true);
+
+    // Finishing the superseded operation must not unregister its replacement
+    finishOperation(first);
+    expect(cancelOperation('op-1')).toBe(true);
+    expect(second.signal.aborted).toBe(true);
+  });
+
+  it('should cancel every running operation', () => {
+    const first = startOperation('op-1', 'load');
+    const second = startOperation('op-2', 'save');
+
+    expect(cancelAllOperations()).toBe(2);
+    expect(first.signal.aborted).toBe(true);
+    expect(second.signal.aborted).toBe(true);
+  });
+});
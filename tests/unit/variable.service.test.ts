@@ -0,0 +1,243 @@
+import { syncVariables, pushVariables, getCollectionName } from '../../src/services/variable.service';
+import { saveItemsToContentful } from '../../src/services/contentful.service';
+import { saveCheckedItems } from '../../src/handlers/write.handler';
+import { ContentfulConfig, ContentfulItemsSaver } from '../../src/types';
+
+describe('VariableService', () => {
+  const validConfig: ContentfulConfig = {
+    SPACE_ID: 'space123',
+    ENVIRONMENT: 'master',
+    CMA_TOKEN: 'token123',
+    CONTENT_TYPE: 'translation',
+    KEY_FIELD: 'key',
+    VALUE_FIELD: 'value',
+    NODE_NAME_PATTERN: '^jams_',
+    TARGET_LOCALE: ''
+  };
+
+  const locales = [
+    { code: 'de-DE', name: 'German', default: false, fallbackCode: 'en-US' },
+    { code: 'en-US', name: 'English (US)', default: true, fallbackCode: null }
+  ];
+
+  let entries: Array<{ sys: { id: string; version: number }; fields: Record<string, Record<string, string>> }>;
+
+  interface MockVariable {
+    id: string;
+    name: string;
+    variableCollectionId: string;
+    valuesByMode: Record<string, unknown>;
+    pluginData: Record<string, string>;
+    getPluginData: (key: string) => string;
+    setPluginData: (key: string, value: string) => void;
+    setValueForMode: (modeId: string, value: unknown) => void;
+  }
+
+  interface MockCollection {
+    id: string;
+    name: string;
+    defaultModeId: string;
+    modes: Array<{ modeId: string; name: string }>;
+    renameMode: jest.Mock;
+    addMode: jest.Mock;
+  }
+
+  let collections: MockCollection[];
+  let variables: MockVariable[];
+  let saveItems: jest.MockedFunction<ContentfulItemsSaver>;
+
+  function createCollection(name: string): MockCollection {
+    const collection: MockCollection = {
+      id: `collection-${collections.length + 1}`,
+      name,
+      defaultModeId: 'mode-1',
+      modes: [{ modeId: 'mode-1', name: 'Mode 1' }],
+      renameMode: jest.fn((modeId: string, modeName: string) => {
+        collection.modes.filter(m => m.modeId === modeId).forEach(m => { m.name = modeName; });
+      }),
+      addMode: jest.fn((modeName: string): string => {
+        const modeId: string = `mode-${collection.modes.length + 1}`;
+        collection.modes.push({ modeId, name: modeName });
+        return modeId;
+      })
+    };
+    collections.push(collection);
+    return collection;
+  }
+
+  function createVariable(name: string, collection: { id: string }): MockVariable {
+    const variable: MockVariable = {
+      id: `variable-${variables.length + 1}`,
+      name,
+      variableCollectionId: collection.id,
+      valuesByMode: {},
+      pluginData: {},
+      getPluginData: (key: string) => variable.pluginData[key] || '',
+      setPluginData: (key: string, value: string) => { variable.pluginData[key] = value; },
+      setValueForMode: (modeId: string, value: unknown) => { variable.valuesByMode[modeId] = value; }
+    };
+    variables.push(variable);
+    return variable;
+  }
+
+  // Serves locales and entries; PUT and POST requests succeed
+  function mockContentful() {
+    (global.fetch as jest.Mock).mockImplementation(async (url: string, options: { method?: string } = {}) => ({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      json: async () => {
+        if (url.endsWith('/locales')) return { items: locales };
+        if (options.method === 'POST') return { sys: { id: 'entry-new' } };
+        if (url.includes('/entries/')) return entries.find(e => url.endsWith(e.sys.id));
+        return { total: entries.length, items: entries };
+      },
+      text: async () => ''
+    }));
+  }
+
+  beforeEach(() => {
+    entries = [
+      { sys: { id: 'entry1', version: 3 }, fields: { key: { 'en-US': 'home.title' }, value: { 'en-US': 'Welcome', 'de-DE': 'Willkommen' } } },
+      { sys: { id: 'entry2', version: 1 }, fields: { key: { 'en-US': 'home.cta' }, value: { 'en-US': 'Start' } } }
+    ];
+    collections = [];
+    variables = [];
+    Object.defineProperty(figma, 'variables', {
+      value: {
+        getLocalVariableCollectionsAsync: jest.fn(async () => collections),
+        getLocalVariablesAsync: jest.fn(async () => variables),
+        createVariableCollection: jest.fn(createCollection),
+        createVariable: jest.fn(createVariable)
+      },
+      configurable: true
+    });
+    mockContentful();
+    saveItems = jest.fn((items, locales, options) => saveItemsToContentful(validConfig, items, locales, options));
+  });
+
+  function findVariable(key: string): MockVariable {
+    return variables.find(v => v.pluginData.contentfulKey === key) as MockVariable;
+  }
+
+  function findPuts(): Array<[string, { body: string; headers: Record<string, string> }]> {
+    return (global.fetch as jest.Mock).mock.calls.filter(([, options]) => options && options.method === 'PUT');
+  }
+
+  describe('syncVariables', () => {
+    it('should create a collection with one mode per locale, default first', async () => {
+      const result = await syncVariables(validConfig);
+
+      expect(result).toEqual({ collectionName: 'Contentful: translation', modes: ['en-US', 'de-DE'], created: 2, updated: 3, errors: [] });
+      expect(collections[0].modes).toEqual([{ modeId: 'mode-1', name: 'en-US' }, { modeId: 'mode-2', name: 'de-DE' }]);
+
+      const title = variables.find(v => v.pluginData.contentfulKey === 'home.title');
+      expect(title && title.name).toBe('home/title');
+      expect(title && title.valuesByMode).toEqual({ 'mode-1': 'Welcome', 'mode-2': 'Willkommen' });
+    });
+
+    it('should update an existing collection without duplicating variables', async () => {
+      await syncVariables(validConfig);
+      entries[1].fields.value = { 'en-US': 'Get started' };
+
+      const result = await syncVariables(validConfig);
+
+      expect(collections).toHaveLength(1);
+      expect(result.created).toBe(0);
+      expect(result.updated).toBe(1);
+    });
+
+    it('should report locales that cannot get a mode', async () => {
+      createCollection(getCollectionName(validConfig)).addMode.mockImplementation(() => {
+        throw new Error('Limited to 1 modes only');
+      });
+
+      const result = await syncVariables(validConfig);
+
+      expect(result.modes).toEqual([]);
+      expect(result.errors).toEqual(['en-US: Limited to 1 modes only', 'de-DE: Limited to 1 modes only']);
+    });
+  });
+
+  describe('pushVariables', () => {
+    it('should fail when the collection has not been synced', async () => {
+      await expect(pushVariables(validConfig, saveItems)).rejects.toThrow('No "Contentful: translation" variable collection - sync variables first');
+    });
+
+    it('should save changed values in the locale of their mode', async () => {
+      await syncVariables(validConfig);
+      findVariable('home.cta').setValueForMode('mode-2', 'Los geht\'s');
+      (global.fetch as jest.Mock).mockClear();
+
+      const result = await pushVariables(validConfig, saveItems);
+
+      expect(result).toEqual({ saved: 1, failed: 0, errors: [] });
+      const [url, options] = findPuts()[0];
+      expect(url).toContain('/entries/entry2');
+      expect(JSON.parse(options.body).fields.value).toEqual({ 'en-US': 'Start', 'de-DE': 'Los geht\'s' });
+      expect(saveItems).toHaveBeenCalledTimes(1);
+      expect(saveItems.mock.calls[0][0]).toEqual([{ key: 'home.cta', value: 'Los geht\'s', isUpdate: true, entryId: 'entry2', version: 1 }]);
+      expect(saveItems.mock.calls[0][1]).toEqual({ target: 'de-DE', default: 'en-US' });
+    });
+
+    it('should push nothing when no value changed since the sync', async () => {
+      await syncVariables(validConfig);
+
+      const result = await pushVariables(validConfig, saveItems);
+
+      expect(result).toEqual({ saved: 0, failed: 0, errors: [] });
+      expect(saveItems).not.toHaveBeenCalled();
+    });
+
+    it('should not push a value again once it was pushed', async () => {
+      await syncVariables(validConfig);
+      findVariable('home.title').setValueForMode('mode-1', 'Hello');
+      await pushVariables(validConfig, saveItems);
+      saveItems.mockClear();
+
+      const result = await pushVariables(validConfig, saveItems);
+
+      expect(result.saved).toBe(0);
+      expect(saveItems).not.toHaveBeenCalled();
+    });
+
+    it('should never push empty values', async () => {
+      await syncVariables(validConfig);
+      findVariable('home.title').setValueForMode('mode-2', '');
+
+      const result = await pushVariables(validConfig, saveItems);
+
+      expect(result.saved).toBe(0);
+      expect(saveItems).not.toHaveBeenCalled();
+    });
+
+    it('should report a conflict when the entry changed in Contentful since the sync', async () => {
+      await syncVariables(validConfig);
+      entries[1].sys.version = 2;
+      findVariable('home.cta').setValueForMode('mode-1', 'Go');
+
+      const result = await pushVariables(validConfig, saveItems);
+
+      expect(result.saved).toBe(0);
+      expect(result.failed).toBe(1);
+      expect(result.errors[0]).toContain('home.cta (en-US): Entry changed in Contentful since it was loaded');
+      expect(findPuts()).toHaveLength(0);
+    });
+
+    it('should hold back keys that break error-level naming rules', async () => {
+      const config = { ...validConfig, KEY_LINT_RULES: 'lowercase:error' };
+      await syncVariables(config);
+      const variable = createVariable('Home/Subtitle', collections[0]);
+      variable.setValueForMode('mode-1', 'Welcome back');
+
+      const result = await pushVariables(config, (items, locales, options) => saveCheckedItems(config, items, locales, options));
+
+      expect(result).toEqual({
+        saved: 0,
+        failed: 1,
+        errors: ['Home/Subtitle (en-US): Key breaks naming rules: Key has uppercase letters']
+      });
+      expect((global.fetch as jest.Mock).mock.calls.some(([, options]) => options && options.method === 'POST')).toBe(false);
+    });
+  });
+});